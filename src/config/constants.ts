@@ -8,14 +8,93 @@ export const SOCKET_EVENTS = {
   UPDATE_MATCH: 'update-match',
   CREATE_SET: 'create-set',
   MARK_SET_PLAYED: 'mark-set-played',
+  CORRECT_SET: 'correct-set',
+  SCORE_POINT: 'score-point',
+  REMOVE_POINT: 'remove-point',
+  UNDO_ACTION: 'undo-action',
+  REDO_ACTION: 'redo-action',
+  CLAIM_SCORING: 'claim-scoring',
+  RELEASE_SCORING: 'release-scoring',
+  CHANGE_MATCH_STATUS: 'change-match-status',
+  RECORD_WALKOVER: 'record-walkover',
+  RECORD_RETIREMENT: 'record-retirement',
+  JOIN_EVENT: 'join-event',
+  LEAVE_EVENT: 'leave-event',
+  JOIN_GROUP: 'join-group',
+  LEAVE_GROUP: 'leave-group',
+  GET_POSITION_SCORES: 'get-position-scores',
+  ASSIGN_POSITIONS: 'assign-positions',
+  UPDATE_POSITION_SCORE: 'update-position-score',
+  JOIN_HEAT: 'join-heat',
+  LEAVE_HEAT: 'leave-heat',
+  GET_HEAT: 'get-heat',
+  GET_LEADERBOARD: 'get-leaderboard',
+  GENERATE_HEATS: 'generate-heats',
+  ASSIGN_HEAT: 'assign-heat',
+  UPDATE_HEAT_STATUS: 'update-heat-status',
+  RECORD_HEAT_RESULT: 'record-heat-result',
+  GET_RELAY: 'get-relay',
+  GET_STANDINGS: 'get-standings',
+  GET_BRACKET: 'get-bracket',
+  RESOLVE_BYES: 'resolve-byes',
+  GET_EVENT_RESULTS: 'get-event-results',
+  GET_RANKING: 'get-ranking',
+  GET_COURTS: 'get-courts',
+  CREATE_COURT: 'create-court',
+  DELETE_COURT: 'delete-court',
+  JOIN_COURT: 'join-court',
+  LEAVE_COURT: 'leave-court',
+  ASSIGN_COURT: 'assign-court',
+  REORDER_COURT: 'reorder-court',
+  CALL_MATCH: 'call-match',
+  NEXT_MATCH: 'next-match',
+  SCHEDULE_MATCH: 'schedule-match',
+  GET_SCHEDULE: 'get-schedule',
+  JOIN_FEDERATION: 'join-federation',
+  LEAVE_FEDERATION: 'leave-federation',
+  RECORD_RELAY_LEG: 'record-relay-leg',
+  CREATE_TIE: 'create-tie',
 
   // Server -> Client
   MATCH_DATA: 'match-data',
   MATCH_SCORE_UPDATED: 'match-score-updated',
   MATCH_UPDATED: 'match-updated',
   MATCH_COMPLETED: 'match-completed',
+  MATCH_REVERTED: 'match-reverted',
+  MATCH_STATUS_CHANGED: 'match-status-changed',
   SET_CREATED: 'set-created',
   SET_PLAYED: 'set-played',
+  SET_CORRECTED: 'set-corrected',
+  ACTION_UNDONE: 'action-undone',
+  ACTION_REDONE: 'action-redone',
+  VERSION_CONFLICT: 'version-conflict',
+  SCORER_CHANGED: 'scorer-changed',
+  EVENT_POSITION_SCORES: 'event-position-scores',
+  POSITION_SCORES_UPDATED: 'position-scores-updated',
+  HEAT_DATA: 'heat-data',
+  HEATS_GENERATED: 'heats-generated',
+  HEAT_UPDATED: 'heat-updated',
+  EVENT_LEADERBOARD: 'event-leaderboard',
+  RELAY_LEG_RECORDED: 'relay-leg-recorded',
+  RELAY_STANDINGS: 'relay-standings',
+  TIE_CREATED: 'tie-created',
+  RUBBER_COMPLETED: 'rubber-completed',
+  BRACKET_DATA: 'bracket-data',
+  BRACKET_UPDATED: 'bracket-updated',
+  BYES_RESOLVED: 'byes-resolved',
+  GROUP_STANDINGS: 'group-standings',
+  GROUP_COMPLETED: 'group-completed',
+  QUALIFIERS_DETERMINED: 'qualifiers-determined',
+  EVENT_RESULTS: 'event-results',
+  FEDERATION_RANKING: 'federation-ranking',
+  RANKING_UPDATED: 'ranking-updated',
+  COURTS_DATA: 'courts-data',
+  COURT_UPDATED: 'court-updated',
+  COURT_DELETED: 'court-deleted',
+  MATCH_SCHEDULED: 'match-scheduled',
+  SCHEDULE_CONFLICTS: 'schedule-conflicts',
+  SCHEDULE_DATA: 'schedule-data',
+  SCHEDULE_DELAYED: 'schedule-delayed',
   ERROR: 'err',
   CONNECT_SUCCESS: 'connect-success',
 } as const
@@ -35,8 +114,114 @@ export const ERROR_MESSAGES = {
   INVALID_SCORE: 'Invalid score values',
   SET_ALREADY_PLAYED: 'Set is already marked as played',
   MATCH_ALREADY_PLAYED: 'Match is already completed',
+  MATCH_NOT_PLAYED: 'Match is not completed',
   MATCH_DATE_REQUIRED: 'Match date must be set before creating sets',
   MAX_SETS_REACHED: 'Maximum number of sets reached for this match',
   PREVIOUS_SETS_NOT_PLAYED:
     'All previous sets must be played before creating a new set',
+  INVALID_SIDE: 'Side must be 1 or 2',
+  NO_POINTS_TO_REMOVE: 'There are no points to remove for this set',
+  SET_NOT_PLAYED: 'Set is not marked as played',
+  CORRECTION_REASON_REQUIRED: 'A reason is required to correct a set',
+  LATER_SETS_PLAYED: 'Cannot reopen a set while later sets are played',
+  NOTHING_TO_UNDO: 'There is no action to undo for this match',
+  NOTHING_TO_REDO: 'There is no action to redo for this match',
+  DOWNSTREAM_MATCH_STARTED:
+    'Cannot reverse match result: a following match has already started',
+  GROUP_NOT_FOUND: 'Group not found',
+  FEDERATION_NOT_FOUND: 'Federation not found',
+  INVALID_BEST_RESULTS: 'bestResults must be a positive whole number',
+  COURT_NOT_FOUND: 'Court not found',
+  INVALID_COURT_DAY: 'Court date must be one of the event days (YYYY-MM-DD)',
+  COURT_NAME_TAKEN: 'The event already has a court with this name on that day',
+  COURT_NOT_IN_EVENT: 'Court does not belong to the event of this match',
+  MATCH_NOT_ON_COURT_DAY: 'The match is scheduled on another day than the court',
+  MATCH_ALREADY_CALLED:
+    'Only matches that have not been called can be moved between courts',
+  INVALID_COURT_QUEUE: 'The new order must list every match waiting for the court',
+  MATCH_NOT_ON_COURT: 'Assign the match to a court before calling it',
+  MATCH_PLAYERS_NOT_KNOWN: 'Both players must be known before the match is called',
+  COURT_BUSY: 'Another match is still on this court',
+  COURT_QUEUE_EMPTY: 'No match on this court is ready to be called',
+  INVALID_SCHEDULED_AT: 'scheduledAt must be a date and time or null',
+  INVALID_SCHEDULE_DATE: 'date must be a day (YYYY-MM-DD)',
+  BRACKET_NOT_SUPPORTED:
+    'Brackets are only used in elimination and groups-knockout events',
+  KNOCKOUT_MATCH_STARTED:
+    'Cannot change the qualifiers of a group: their knockout match has already started',
+  VERSION_REQUIRED: 'Version is required',
+  SCORING_CLAIMED: 'Another device is scoring this match',
+  MATCH_NOT_JOINED: 'Join the match before claiming scoring',
+  NOT_SCORER: 'You do not hold the scoring claim for this match',
+  INVALID_MATCH_STATUS: 'Invalid match status',
+  INVALID_STATUS_TRANSITION: 'This status change is not allowed for the match',
+  MATCH_NOT_IN_PROGRESS: 'Match must be in progress to create or score sets',
+  RESULT_STATUS_NOT_SUPPORTED:
+    'Record walkovers and retirements with record-walkover or record-retirement',
+  BYE_MATCH_DECISION: 'A BYE match cannot be decided by walkover or retirement',
+  WINNER_NOT_IN_MATCH: 'Winner must be one of the registrations in the match',
+  REGISTRATION_NOT_FOUND: 'Registration not found',
+  PLAYER_NOT_IN_REGISTRATION: 'Player is not part of this registration',
+  INVALID_POSITION: 'Position must be one of R, L, F, B',
+  POSITION_NOT_ASSIGNED: 'Position is not assigned to this player',
+  INVALID_POSITION_SCORE: 'Score must be a non-negative whole number or null',
+  HEAT_NOT_FOUND: 'Heat not found',
+  HEATS_NOT_SUPPORTED: 'Heats are only used in tests-format events',
+  NO_REGISTRATIONS: 'The event has no registrations',
+  HEATS_ALREADY_STARTED:
+    'Heats cannot be regenerated once a heat has started or has results',
+  HEAT_NOT_PENDING: 'Registrations can only be moved between pending heats',
+  HEAT_FULL: 'The heat already has the maximum number of players',
+  REGISTRATION_NOT_IN_EVENT: 'Registration does not belong to this event',
+  REGISTRATION_NOT_IN_HEAT: 'Registration is not in this heat',
+  HEAT_NOT_IN_PROGRESS: 'Heat must be in progress to enter results',
+  INVALID_HEAT_STATUS: 'Invalid heat status',
+  HEAT_RESULTS_MISSING:
+    'Every registration in the heat needs a result before it can be finished',
+  INVALID_HEAT_SCORE: 'Score must be a non-negative whole number or null',
+  RELAY_NOT_SUPPORTED: 'Relay scoring is only used in relay events',
+  INVALID_RELAY_LEG: 'Relay legs must be recorded in running order',
+  RELAY_LEG_NOT_LATEST: 'Only the latest recorded leg of a team can be cleared',
+  INVALID_RELAY_SCORE: 'Score must be a non-negative whole number or null',
+  TIES_NOT_SUPPORTED: 'Team ties are only used in team events',
+  TIE_NOT_CREATED: 'Create the tie lineup with create-tie before scoring',
+  TIE_ALREADY_STARTED: 'The tie lineup cannot be changed once sets exist',
+  INVALID_TIE_LINEUP:
+    'The lineup needs one pairing per rubber, each with a player from each team',
+  TIE_NEEDS_BOTH_TEAMS: 'Both teams must be known before the tie lineup is made',
+  TEAM_HAS_NO_PLAYERS: 'Both teams need at least one player for a tie',
+  RUBBER_NOT_FOUND: 'Rubber not found',
+  RUBBER_REQUIRED: 'A rubber of this tie is required to create a set',
+  RUBBER_ALREADY_PLAYED: 'Rubber is already decided',
+  PREVIOUS_RUBBERS_NOT_PLAYED:
+    'All previous rubbers must be decided before starting a new one',
+  REOPEN_WITH_UPDATE_MATCH:
+    'Reopen a finished match with update-match (played: false)',
 } as const
+
+// Maximum number of scoring actions kept per match for undo/redo
+export const ACTION_HISTORY_LIMIT = 50
+
+// Heat size for tests-format events without events.players_per_heat
+export const DEFAULT_PLAYERS_PER_HEAT = 8
+
+// Group placings that reach the knockout stage of a groups-knockout event
+// without events.qualifiers_per_group
+export const DEFAULT_QUALIFIERS_PER_GROUP = 2
+
+// Results of a player that count towards a federation ranking when the
+// query does not set bestResults
+export const DEFAULT_RANKING_BEST_RESULTS = 5
+
+// Scheduling estimates without events.set_minutes / events.min_rest_minutes:
+// minutes per set, rest a player needs between two matches, and time added
+// to every match for calling players and warming up
+export const DEFAULT_SET_MINUTES = 10
+export const DEFAULT_MIN_REST_MINUTES = 20
+export const MATCH_CHANGEOVER_MINUTES = 5
+
+// How often the running schedule is checked for matches running late
+export const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000
+
+// A scoring claim lapses after this long without activity from its holder
+export const SCORER_CLAIM_TIMEOUT_MS = 5 * 60 * 1000
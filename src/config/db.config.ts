@@ -14,3 +14,9 @@ const pool = new Pool({
 
 export const db = drizzle(pool, { schema })
 
+// A transaction handle, as passed to db.transaction callbacks
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Either the pool-backed db or an open transaction; completion helpers accept
+// both so they can run standalone or as part of a larger transaction
+export type DbExecutor = typeof db | DbTransaction
@@ -0,0 +1,54 @@
+// Placements a registration can finish a completed event in, best first.
+// Each is awarded as a placement_tiers row (PLACEMENT_TIER_NAMES), and the
+// event's points schema (points_schema_entries) sets the ranking points that
+// tier is worth:
+// - champion / runner-up: winner and loser of the final (the bracket reset
+//   when a double-elimination grand final needed one); first and second of
+//   the table in a single-group event
+// - third-place / fourth-place: winner and loser of the third-place match,
+//   the last two knocked out of a double-elimination losers bracket, or
+//   third and fourth of a single-group table
+// - semi-finalist, quarter-finalist, round-of-16, round-of-32: knocked out in
+//   that round; in a double-elimination bracket the last three stand for
+//   finishing 5th-8th, 9th-16th and 17th-32nd
+// - group-stage: did not reach the knockout stage, or played a groups event
+//   with more than one group
+// - participant: any other finish
+export type Placement =
+  | 'champion'
+  | 'runner-up'
+  | 'third-place'
+  | 'fourth-place'
+  | 'semi-finalist'
+  | 'quarter-finalist'
+  | 'round-of-16'
+  | 'round-of-32'
+  | 'group-stage'
+  | 'participant'
+
+export const PLACEMENTS: readonly Placement[] = [
+  'champion',
+  'runner-up',
+  'third-place',
+  'fourth-place',
+  'semi-finalist',
+  'quarter-finalist',
+  'round-of-16',
+  'round-of-32',
+  'group-stage',
+  'participant',
+]
+
+// The placement_tiers row (by its unique name) each placement is awarded as
+export const PLACEMENT_TIER_NAMES: Record<Placement, string> = {
+  champion: 'champion',
+  'runner-up': 'runner-up',
+  'third-place': 'third-place',
+  'fourth-place': 'fourth-place',
+  'semi-finalist': 'semi-finalist',
+  'quarter-finalist': 'quarter-finalist',
+  'round-of-16': 'round-of-16',
+  'round-of-32': 'round-of-32',
+  'group-stage': 'group-stage',
+  participant: 'participant',
+}
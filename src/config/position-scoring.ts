@@ -0,0 +1,23 @@
+import type { Event } from '../db/schema'
+
+// R=Right, L=Left, F=Forehand, B=Backhand
+export type Position = 'R' | 'L' | 'F' | 'B'
+
+export const POSITIONS: readonly Position[] = ['R', 'L', 'F', 'B']
+
+// Shape of registration_players.position_scores
+// null = position assigned but score pending, number = score entered
+export type PositionScores = Partial<Record<Position, number | null>>
+
+// Positions each registration plays, by event type. In team events every
+// position is played by exactly one team member. Event types without an
+// entry are head-to-head and scored with sets
+export const EVENT_POSITIONS: Partial<
+  Record<Event['eventType'], readonly Position[]>
+> = {
+  'super-solo': ['R', 'L', 'F', 'B'],
+  'speed-solo': ['R', 'L'],
+  'juniors-solo': ['R', 'L', 'F', 'B'],
+  'solo-teams': ['R', 'L', 'F', 'B'],
+  'speed-solo-teams': ['R', 'L'],
+}
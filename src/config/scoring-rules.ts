@@ -0,0 +1,76 @@
+import type { Event } from '../db/schema'
+
+export interface SetScoringRules {
+  // Points needed to win a set; null means the set has no target and is
+  // closed manually (any non-draw score)
+  pointsToWin: number | null
+  // Minimum lead needed once pointsToWin is reached
+  winBy: number
+  // Score at which the set ends regardless of winBy; null for no cap
+  pointCap: number | null
+}
+
+// 'award-sets': the winner is awarded the sets needed for a majority
+// 'no-sets': the match is decided without any sets
+export type WalkoverPolicy = 'award-sets' | 'no-sets'
+
+// 'award-remaining': the open set is closed and the winner is awarded the
+// further sets needed for a majority
+// 'keep-played': the open set is closed and no further sets are added
+export type RetirementPolicy = 'award-remaining' | 'keep-played'
+
+export interface ScoringRules extends SetScoringRules {
+  // Rules for the last possible set of a match, when they differ
+  decidingSet: SetScoringRules | null
+  walkover: WalkoverPolicy
+  retirement: RetirementPolicy
+  // Team events: number of rubbers (player-vs-player sub-matches) in a tie,
+  // each played best of event.bestOf; null when matches are not team ties
+  rubbersPerTie: number | null
+}
+
+// Shape of events.scoring_rules: any subset of the rules
+export type ScoringRulesOverride = Partial<SetScoringRules> & {
+  decidingSet?: Partial<SetScoringRules> | null
+  walkover?: WalkoverPolicy
+  retirement?: RetirementPolicy
+  rubbersPerTie?: number | null
+}
+
+const RALLY_SET_RULES: ScoringRules = {
+  pointsToWin: 11,
+  winBy: 2,
+  pointCap: null,
+  decidingSet: null,
+  walkover: 'award-sets',
+  retirement: 'award-remaining',
+  rubbersPerTie: null,
+}
+
+// Solo formats are scored per player, not as head-to-head rallies
+const OPEN_SET_RULES: ScoringRules = {
+  pointsToWin: null,
+  winBy: 1,
+  pointCap: null,
+  decidingSet: null,
+  walkover: 'no-sets',
+  retirement: 'keep-played',
+  rubbersPerTie: null,
+}
+
+// Team matches are ties of three rubbers, each played by one member per team
+const TEAM_RALLY_RULES: ScoringRules = { ...RALLY_SET_RULES, rubbersPerTie: 3 }
+const TEAM_OPEN_RULES: ScoringRules = { ...OPEN_SET_RULES, rubbersPerTie: 3 }
+
+// Default scoring rules by event type
+export const DEFAULT_SCORING_RULES: Record<Event['eventType'], ScoringRules> = {
+  singles: RALLY_SET_RULES,
+  doubles: RALLY_SET_RULES,
+  'singles-teams': TEAM_RALLY_RULES,
+  'super-solo': OPEN_SET_RULES,
+  'speed-solo': OPEN_SET_RULES,
+  'juniors-solo': OPEN_SET_RULES,
+  'solo-teams': TEAM_OPEN_RULES,
+  'speed-solo-teams': OPEN_SET_RULES,
+  relay: OPEN_SET_RULES,
+}
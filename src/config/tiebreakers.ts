@@ -0,0 +1,33 @@
+// Criteria that order a group table. Each one is applied to the
+// registrations still level after the previous ones:
+// - points: league points (events.points_per_win / points_per_loss)
+// - head-to-head: matches won against the other level registrations only
+// - set-difference: sets won minus sets lost
+// - sets-won: sets won
+// - point-difference: rally points won minus lost, summed over played sets
+// - seed: lower seed first, unseeded last
+export type Tiebreaker =
+  | 'points'
+  | 'head-to-head'
+  | 'set-difference'
+  | 'sets-won'
+  | 'point-difference'
+  | 'seed'
+
+export const TIEBREAKERS: readonly Tiebreaker[] = [
+  'points',
+  'head-to-head',
+  'set-difference',
+  'sets-won',
+  'point-difference',
+  'seed',
+]
+
+// Chain used when events.tiebreakers is not set
+export const DEFAULT_TIEBREAKERS: readonly Tiebreaker[] = [
+  'points',
+  'head-to-head',
+  'set-difference',
+  'point-difference',
+  'seed',
+]
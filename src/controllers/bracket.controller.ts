@@ -0,0 +1,192 @@
+import { Server, Socket } from 'socket.io'
+import { db } from '../config/db.config'
+import { Event } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventReadAuthorization,
+  checkEventUpdateAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  GetBracketData,
+  ResolveByesData,
+  ByesResolvedData,
+  MatchCompletedData,
+} from '../types/socket.types'
+import {
+  getMatchById,
+  getEventById,
+  getOpenBracketEvents,
+} from '../services/match.service'
+import { getEventBracket } from '../services/bracket.service'
+import { isBracketFormat, resolvePendingByes } from '../utils/match-completion'
+import { broadcastBracketUpdated, getMatchRooms } from './match.controller'
+import { broadcastEventResults } from './placement.controller'
+
+/**
+ * Completes the pending BYEs of an event and announces each completed match,
+ * the changed bracket slots and the outcome of the sweep
+ */
+const resolveAndBroadcastByes = async (
+  io: Server,
+  event: Event,
+  resolvedBy: string | null
+): Promise<ByesResolvedData> => {
+  const { completedMatchIds, changedMatchIds } = await db.transaction((tx) =>
+    resolvePendingByes(event.id, tx)
+  )
+
+  for (const completedMatchId of completedMatchIds) {
+    const completedMatch = await getMatchById(completedMatchId)
+    if (!completedMatch?.winnerId) continue
+
+    const matchCompletedData: MatchCompletedData = {
+      matchId: completedMatch.id,
+      winnerId: completedMatch.winnerId,
+    }
+    io.to(getMatchRooms(completedMatch)).emit(
+      SOCKET_EVENTS.MATCH_COMPLETED,
+      matchCompletedData
+    )
+  }
+
+  await broadcastBracketUpdated(io, event, changedMatchIds)
+
+  if (completedMatchIds.length > 0) {
+    await broadcastEventResults(io, event)
+  }
+
+  const byesResolvedData: ByesResolvedData = {
+    eventId: event.id,
+    completedMatchIds,
+    resolvedBy,
+  }
+
+  io.to(`event_${event.id}`).emit(SOCKET_EVENTS.BYES_RESOLVED, byesResolvedData)
+
+  return byesResolvedData
+}
+
+/**
+ * Startup sweep: resolves the BYEs left pending in every bracket event that
+ * is still being played
+ */
+export const sweepPendingByes = async (io: Server): Promise<void> => {
+  try {
+    for (const event of await getOpenBracketEvents()) {
+      const { completedMatchIds } = await resolveAndBroadcastByes(io, event, null)
+
+      if (completedMatchIds.length > 0) {
+        console.log(
+          `Resolved ${completedMatchIds.length} pending BYEs in event ${event.id}`
+        )
+      }
+    }
+  } catch (error) {
+    console.error('[sweepPendingByes] Error:', error)
+  }
+}
+
+export const getBracket = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetBracketData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    if (!isBracketFormat(event.format)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.BRACKET_NOT_SUPPORTED)
+      return
+    }
+
+    socket.emit(SOCKET_EVENTS.BRACKET_DATA, await getEventBracket(event))
+    console.log(`User ${userData.id} fetched bracket for event ${eventId}`)
+  } catch (error) {
+    console.error('[getBracket] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const resolveByes = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ResolveByesData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    if (!isBracketFormat(event.format)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.BRACKET_NOT_SUPPORTED)
+      return
+    }
+
+    const byesResolvedData = await resolveAndBroadcastByes(
+      io,
+      event,
+      userData.id
+    )
+
+    // The caller hears the outcome even without joining the event room
+    if (!socket.rooms.has(`event_${eventId}`)) {
+      socket.emit(SOCKET_EVENTS.BYES_RESOLVED, byesResolvedData)
+    }
+
+    console.log(
+      `User ${userData.id} resolved ${byesResolvedData.completedMatchIds.length} pending BYEs in event ${eventId}`
+    )
+  } catch (error) {
+    console.error('[resolveByes] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { Server, Socket } from 'socket.io'
 import { validateSession, UserData } from '../middlewares/auth.middleware'
 import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import { releaseDeviceClaims } from './scorer.controller'
 
 // Store user connections
 export const userConnections = new Map<string, { socketId: string; lastSeen: Date }>()
@@ -71,6 +72,8 @@ export const handleDisconnect = async (io: Server, socket: Socket): Promise<void
   try {
     const userData = (socket as any).data?.userData as UserData | undefined
 
+    releaseDeviceClaims(io, socket)
+
     if (userData) {
       userConnections.delete(userData.id)
       socket.leave(userData.id)
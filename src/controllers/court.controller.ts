@@ -0,0 +1,587 @@
+import { Server, Socket } from 'socket.io'
+import { eq, and } from 'drizzle-orm'
+import { db } from '../config/db.config'
+import { courts, matches, Court, Event } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventReadAuthorization,
+  checkEventUpdateAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  GetCourtsData,
+  CreateCourtData,
+  DeleteCourtData,
+  AssignCourtData,
+  ReorderCourtData,
+  CallMatchData,
+  NextMatchData,
+  CourtsData,
+  CourtDeletedData,
+} from '../types/socket.types'
+import { getMatchById, getEventById } from '../services/match.service'
+import {
+  getCourtById,
+  getCourtsForEvent,
+  getCourtMatches,
+  getMatchOnCourt,
+  getNextCallableMatch,
+  lockCourt,
+  buildCourtData,
+  assignMatchToCourt,
+  reorderCourtQueue,
+} from '../services/court.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import { lockMatch } from '../utils/match-completion'
+import { canTransitionMatchStatus, setMatchStatus } from '../utils/match-status'
+import { isValidVersion, VersionConflictError } from '../utils/versioning'
+import {
+  broadcastMatchStatusChanged,
+  emitVersionConflict,
+} from './match.controller'
+
+/**
+ * Sends the current state of a court (now playing / up next) to the court
+ * room and the event room. Safe to call without awaiting it
+ */
+export const broadcastCourtUpdated = async (
+  io: Server,
+  courtId: string | null
+): Promise<void> => {
+  if (!courtId) return
+
+  try {
+    const court = await getCourtById(courtId)
+    if (!court) return
+
+    const event = await getEventById(court.eventId)
+    if (!event) return
+
+    io.to([`court_${court.id}`, `event_${court.eventId}`]).emit(
+      SOCKET_EVENTS.COURT_UPDATED,
+      await buildCourtData(court, event)
+    )
+  } catch (error) {
+    console.error('[broadcastCourtUpdated] Error:', error)
+  }
+}
+
+/**
+ * Loads an event and checks that the user may update it
+ */
+const loadEventForUpdate = async (
+  socket: Socket,
+  userData: UserData,
+  eventId: string
+): Promise<Event | null> => {
+  const event = await getEventById(eventId)
+
+  if (!event) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+    return null
+  }
+
+  const authCheck = await checkEventUpdateAuthorization(userData, {
+    organizationId: event.organizationId,
+  })
+
+  if (!authCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+    return null
+  }
+
+  return event
+}
+
+/**
+ * Loads a court and its event and checks that the user may update the event
+ */
+const loadCourtForUpdate = async (
+  socket: Socket,
+  userData: UserData,
+  courtId: string
+) => {
+  const court = await getCourtById(courtId)
+
+  if (!court) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.COURT_NOT_FOUND)
+    return null
+  }
+
+  const event = await loadEventForUpdate(socket, userData, court.eventId)
+  if (!event) return null
+
+  return { court, event }
+}
+
+const isEventDay = (event: Event, date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false
+
+  return !event.eventDates?.length || event.eventDates.includes(date)
+}
+
+export const getCourts = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetCourtsData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+    const date = data.date || null
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    const eventCourts = await getCourtsForEvent(eventId, date)
+
+    const courtsData: CourtsData = {
+      eventId,
+      date,
+      courts: await Promise.all(
+        eventCourts.map((court) => buildCourtData(court, event))
+      ),
+    }
+
+    socket.emit(SOCKET_EVENTS.COURTS_DATA, courtsData)
+    console.log(`User ${userData.id} fetched courts for event ${eventId}`)
+  } catch (error) {
+    console.error('[getCourts] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const createCourt = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: CreateCourtData
+): Promise<void> => {
+  try {
+    const { eventId, date } = data
+    const name = data.name?.trim()
+
+    if (!eventId || !name || !date) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID, court name and date are required')
+      return
+    }
+
+    const event = await loadEventForUpdate(socket, userData, eventId)
+    if (!event) return
+
+    if (!isEventDay(event, date)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_COURT_DAY)
+      return
+    }
+
+    const existing = await db
+      .select({ id: courts.id })
+      .from(courts)
+      .where(
+        and(
+          eq(courts.eventId, eventId),
+          eq(courts.date, date),
+          eq(courts.name, name)
+        )
+      )
+      .limit(1)
+
+    if (existing.length > 0) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.COURT_NAME_TAKEN)
+      return
+    }
+
+    const created = await db
+      .insert(courts)
+      .values({ eventId, name, date })
+      .returning()
+
+    await broadcastCourtUpdated(io, created[0].id)
+
+    console.log(
+      `User ${userData.id} created court ${created[0].id} for event ${eventId} on ${date}`
+    )
+  } catch (error) {
+    console.error('[createCourt] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const deleteCourt = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: DeleteCourtData
+): Promise<void> => {
+  try {
+    const { courtId } = data
+
+    if (!courtId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Court ID is required')
+      return
+    }
+
+    const loaded = await loadCourtForUpdate(socket, userData, courtId)
+    if (!loaded) return
+
+    const unassignedMatchIds = await db.transaction(async (tx) => {
+      const court = await lockCourt(courtId, tx)
+
+      if (!court) {
+        throw new Error(ERROR_MESSAGES.COURT_NOT_FOUND)
+      }
+
+      const courtMatches = await getCourtMatches(courtId, tx)
+
+      if (getMatchOnCourt(courtMatches)) {
+        throw new Error(ERROR_MESSAGES.COURT_BUSY)
+      }
+
+      await tx
+        .update(matches)
+        .set({ courtId: null, courtOrder: null, updatedAt: new Date() })
+        .where(eq(matches.courtId, courtId))
+
+      await tx.delete(courts).where(eq(courts.id, courtId))
+
+      return courtMatches.map((m) => m.id)
+    })
+
+    const courtDeletedData: CourtDeletedData = {
+      courtId,
+      eventId: loaded.court.eventId,
+      unassignedMatchIds,
+    }
+
+    io.to([`court_${courtId}`, `event_${loaded.court.eventId}`]).emit(
+      SOCKET_EVENTS.COURT_DELETED,
+      courtDeletedData
+    )
+
+    console.log(`User ${userData.id} deleted court ${courtId}`)
+  } catch (error) {
+    console.error('[deleteCourt] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const assignCourt = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: AssignCourtData
+): Promise<void> => {
+  try {
+    const { matchId } = data
+    const courtId = data.courtId ?? null
+    const position = data.position ?? null
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    const match = await getMatchById(matchId)
+
+    if (!match) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+      return
+    }
+
+    const event = await loadEventForUpdate(socket, userData, match.eventId)
+    if (!event) return
+
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    const previousCourtId = await db.transaction(async (tx) => {
+      // Lock the courts in a fixed order so two moves cannot deadlock
+      const courtIds = [...new Set([courtId, match.courtId])]
+        .filter((id): id is string => id !== null)
+        .sort()
+
+      let court: Court | null = null
+      for (const id of courtIds) {
+        const locked = await lockCourt(id, tx)
+        if (id === courtId) court = locked
+      }
+
+      if (courtId && !court) {
+        throw new Error(ERROR_MESSAGES.COURT_NOT_FOUND)
+      }
+
+      const lockedMatch = await lockMatch(matchId, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      return assignMatchToCourt(lockedMatch, court, position, tx)
+    })
+
+    await broadcastCourtUpdated(io, previousCourtId)
+    if (courtId !== previousCourtId) {
+      await broadcastCourtUpdated(io, courtId)
+    }
+
+    console.log(
+      `User ${userData.id} moved match ${matchId} to court ${courtId ?? 'none'}`
+    )
+  } catch (error) {
+    console.error('[assignCourt] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const reorderCourt = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ReorderCourtData
+): Promise<void> => {
+  try {
+    const { courtId, matchIds } = data
+
+    if (!courtId || !Array.isArray(matchIds)) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Court ID and match IDs are required')
+      return
+    }
+
+    const loaded = await loadCourtForUpdate(socket, userData, courtId)
+    if (!loaded) return
+
+    await db.transaction(async (tx) => {
+      const court = await lockCourt(courtId, tx)
+
+      if (!court) {
+        throw new Error(ERROR_MESSAGES.COURT_NOT_FOUND)
+      }
+
+      await reorderCourtQueue(court, matchIds, tx)
+    })
+
+    await broadcastCourtUpdated(io, courtId)
+
+    console.log(`User ${userData.id} reordered the queue of court ${courtId}`)
+  } catch (error) {
+    console.error('[reorderCourt] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const callMatch = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: CallMatchData
+): Promise<void> => {
+  try {
+    const { matchId, version } = data
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
+    const match = await getMatchById(matchId)
+
+    if (!match) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+      return
+    }
+
+    if (!match.courtId) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_ON_COURT)
+      return
+    }
+
+    const event = await loadEventForUpdate(socket, userData, match.eventId)
+    if (!event) return
+
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    const courtId = match.courtId
+
+    const { updatedMatch, previousStatus } = await db.transaction(async (tx) => {
+      await lockCourt(courtId, tx)
+      const lockedMatch = await lockMatch(matchId, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      if (lockedMatch.version !== version) {
+        throw new VersionConflictError(
+          'match',
+          matchId,
+          matchId,
+          version,
+          lockedMatch.version
+        )
+      }
+
+      // The match may have moved off the court since it was loaded
+      if (lockedMatch.courtId !== courtId) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_ON_COURT)
+      }
+
+      if (!canTransitionMatchStatus(lockedMatch.status, 'called')) {
+        throw new Error(
+          `${ERROR_MESSAGES.INVALID_STATUS_TRANSITION} (${lockedMatch.status} -> called)`
+        )
+      }
+
+      if (!lockedMatch.registration1Id || !lockedMatch.registration2Id) {
+        throw new Error(ERROR_MESSAGES.MATCH_PLAYERS_NOT_KNOWN)
+      }
+
+      const onCourt = getMatchOnCourt(await getCourtMatches(courtId, tx))
+
+      if (onCourt && onCourt.id !== matchId) {
+        throw new Error(ERROR_MESSAGES.COURT_BUSY)
+      }
+
+      return {
+        updatedMatch: await setMatchStatus(
+          lockedMatch,
+          'called',
+          userData.id,
+          null,
+          tx
+        ),
+        previousStatus: lockedMatch.status,
+      }
+    })
+
+    broadcastMatchStatusChanged(io, updatedMatch, previousStatus, userData.id)
+
+    console.log(`User ${userData.id} called match ${matchId} to court ${courtId}`)
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[callMatch] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const nextMatch = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: NextMatchData
+): Promise<void> => {
+  try {
+    const { courtId } = data
+
+    if (!courtId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Court ID is required')
+      return
+    }
+
+    const loaded = await loadCourtForUpdate(socket, userData, courtId)
+    if (!loaded) return
+
+    const { updatedMatch, previousStatus } = await db.transaction(async (tx) => {
+      const court = await lockCourt(courtId, tx)
+
+      if (!court) {
+        throw new Error(ERROR_MESSAGES.COURT_NOT_FOUND)
+      }
+
+      const courtMatches = await getCourtMatches(courtId, tx)
+
+      if (getMatchOnCourt(courtMatches)) {
+        throw new Error(ERROR_MESSAGES.COURT_BUSY)
+      }
+
+      const next = getNextCallableMatch(courtMatches)
+      const lockedMatch = next ? await lockMatch(next.id, tx) : null
+
+      if (!lockedMatch || lockedMatch.status !== 'scheduled') {
+        throw new Error(ERROR_MESSAGES.COURT_QUEUE_EMPTY)
+      }
+
+      // A device other than this one may hold the claim on the match up next
+      const claimCheck = checkScorerClaim(lockedMatch.id, socket.id)
+
+      if (!claimCheck.authorized) {
+        throw new Error(claimCheck.error)
+      }
+
+      return {
+        updatedMatch: await setMatchStatus(
+          lockedMatch,
+          'called',
+          userData.id,
+          null,
+          tx
+        ),
+        previousStatus: lockedMatch.status,
+      }
+    })
+
+    broadcastMatchStatusChanged(io, updatedMatch, previousStatus, userData.id)
+
+    console.log(
+      `User ${userData.id} called match ${updatedMatch.id} to court ${courtId}`
+    )
+  } catch (error) {
+    console.error('[nextMatch] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -0,0 +1,151 @@
+import { Server, Socket } from 'socket.io'
+import { Event, Group } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import { checkEventReadAuthorization } from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  GetStandingsData,
+  GroupStandingsData,
+  GroupCompletedData,
+  QualifiersDeterminedData,
+} from '../types/socket.types'
+import { getGroupById, getEventById } from '../services/match.service'
+import { getGroupStandings } from '../services/standings.service'
+import { getKnockoutSlots } from '../utils/qualification'
+import { getTiebreakers } from '../utils/standings'
+
+const buildGroupStandingsData = async (
+  event: Event,
+  group: Group
+): Promise<GroupStandingsData> => {
+  return {
+    eventId: event.id,
+    groupId: group.id,
+    groupName: group.name,
+    completed: group.completed,
+    tiebreakers: [...getTiebreakers(event)],
+    standings: await getGroupStandings(group.id),
+  }
+}
+
+/**
+ * Sends the recomputed table of a group to the event and group rooms after a
+ * result in it was recorded, corrected or reverted
+ */
+export const broadcastGroupStandings = async (
+  io: Server,
+  event: Event,
+  groupId: string | null
+): Promise<void> => {
+  if (!groupId) return
+
+  const group = await getGroupById(groupId)
+  if (!group) return
+
+  io.to([`event_${event.id}`, `group_${groupId}`]).emit(
+    SOCKET_EVENTS.GROUP_STANDINGS,
+    await buildGroupStandingsData(event, group)
+  )
+}
+
+/**
+ * Announces the final table and the knockout qualifiers of a completed group
+ * in a groups-knockout event to the event room. Sent again when a
+ * correction changes a completed group
+ */
+export const broadcastGroupQualification = async (
+  io: Server,
+  event: Event,
+  groupId: string | null
+): Promise<void> => {
+  if (!groupId || event.format !== 'groups-knockout') return
+
+  const group = await getGroupById(groupId)
+  if (!group?.completed) return
+
+  const standings = await getGroupStandings(groupId)
+
+  const groupCompletedData: GroupCompletedData = {
+    eventId: event.id,
+    groupId,
+    groupName: group.name,
+    standings,
+  }
+
+  io.to(`event_${event.id}`).emit(SOCKET_EVENTS.GROUP_COMPLETED, groupCompletedData)
+
+  const groupSlots = (await getKnockoutSlots(event)).filter(
+    (s) => s.groupName === group.name
+  )
+
+  const qualifiersDeterminedData: QualifiersDeterminedData = {
+    eventId: event.id,
+    groupId,
+    groupName: group.name,
+    qualifiers: standings
+      .filter((entry) => entry.qualified)
+      .map((entry) => ({
+        registrationId: entry.registrationId,
+        groupPosition: entry.position,
+        source: `${group.name}${entry.position}`,
+        knockoutMatchId:
+          groupSlots.find((s) => s.position === entry.position)?.matchId ?? null,
+        registration: entry.registration,
+      })),
+  }
+
+  io.to(`event_${event.id}`).emit(
+    SOCKET_EVENTS.QUALIFIERS_DETERMINED,
+    qualifiersDeterminedData
+  )
+}
+
+export const getStandings = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetStandingsData
+): Promise<void> => {
+  try {
+    const { groupId } = data
+
+    if (!groupId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Group ID is required')
+      return
+    }
+
+    const group = await getGroupById(groupId)
+
+    if (!group) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.GROUP_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(group.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    const standingsData = await buildGroupStandingsData(event, group)
+
+    socket.emit(SOCKET_EVENTS.GROUP_STANDINGS, standingsData)
+    console.log(`User ${userData.id} fetched standings for group ${groupId}`)
+  } catch (error) {
+    console.error('[getStandings] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
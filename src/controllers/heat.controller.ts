@@ -0,0 +1,519 @@
+import { Server, Socket } from 'socket.io'
+import { and, eq, inArray } from 'drizzle-orm'
+import { db } from '../config/db.config'
+import { heats, heatEntries, registrations, Heat } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventReadAuthorization,
+  checkEventUpdateAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  GetHeatData,
+  GetLeaderboardData,
+  GenerateHeatsData,
+  AssignHeatData,
+  UpdateHeatStatusData,
+  RecordHeatResultData,
+  HeatsGeneratedData,
+  HeatUpdatedData,
+} from '../types/socket.types'
+import { getEventById } from '../services/match.service'
+import {
+  getHeatById,
+  getHeatEntries,
+  lockHeat,
+  buildHeatData,
+  generateEventHeats,
+  moveRegistrationToHeat,
+  setHeatEntryScore,
+  setHeatStatus,
+  getEventLeaderboard,
+} from '../services/heat.service'
+import {
+  canTransitionHeatStatus,
+  getPlayersPerHeat,
+  isValidHeatStatus,
+} from '../utils/heats'
+import {
+  isTestsFormat,
+  updateEventCompletedStatus,
+} from '../utils/match-completion'
+
+/**
+ * Sends the changed heats to their rooms and the event room, followed by
+ * the recomputed event leaderboard
+ */
+const broadcastHeatsAndLeaderboard = async (
+  io: Server,
+  eventId: string,
+  changedHeats: Heat[],
+  userData: UserData
+): Promise<void> => {
+  for (const heat of changedHeats) {
+    const heatUpdatedData: HeatUpdatedData = {
+      heat: await buildHeatData(heat),
+      updatedBy: userData.id,
+    }
+
+    io.to(`heat_${heat.id}`)
+      .to(`event_${eventId}`)
+      .emit(SOCKET_EVENTS.HEAT_UPDATED, heatUpdatedData)
+  }
+
+  const leaderboard = await getEventLeaderboard(eventId)
+  const rooms = [`event_${eventId}`, ...changedHeats.map((h) => `heat_${h.id}`)]
+
+  io.to(rooms).emit(SOCKET_EVENTS.EVENT_LEADERBOARD, leaderboard)
+}
+
+/**
+ * Loads a heat and its event and checks that the user may update the event
+ */
+const loadHeatForUpdate = async (
+  socket: Socket,
+  userData: UserData,
+  heatId: string
+) => {
+  const heat = await getHeatById(heatId)
+
+  if (!heat) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.HEAT_NOT_FOUND)
+    return null
+  }
+
+  const event = await getEventById(heat.eventId)
+
+  if (!event) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+    return null
+  }
+
+  const authCheck = await checkEventUpdateAuthorization(userData, {
+    organizationId: event.organizationId,
+  })
+
+  if (!authCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+    return null
+  }
+
+  return { heat, event }
+}
+
+export const getHeat = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetHeatData
+): Promise<void> => {
+  try {
+    const { heatId } = data
+
+    if (!heatId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Heat ID is required')
+      return
+    }
+
+    const heat = await getHeatById(heatId)
+
+    if (!heat) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.HEAT_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(heat.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.emit(SOCKET_EVENTS.HEAT_DATA, await buildHeatData(heat))
+    console.log(`User ${userData.id} fetched heat ${heatId}`)
+  } catch (error) {
+    console.error('[getHeat] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const getLeaderboard = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetLeaderboardData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    if (!isTestsFormat(event.format)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.HEATS_NOT_SUPPORTED)
+      return
+    }
+
+    socket.emit(
+      SOCKET_EVENTS.EVENT_LEADERBOARD,
+      await getEventLeaderboard(eventId)
+    )
+    console.log(`User ${userData.id} fetched leaderboard of event ${eventId}`)
+  } catch (error) {
+    console.error('[getLeaderboard] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const generateHeats = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: GenerateHeatsData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    if (!isTestsFormat(event.format)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.HEATS_NOT_SUPPORTED)
+      return
+    }
+
+    const createdHeats = await db.transaction(async (tx) => {
+      const existingHeats = await tx
+        .select()
+        .from(heats)
+        .where(eq(heats.eventId, eventId))
+        .for('update')
+
+      if (existingHeats.some((h) => h.status !== 'pending')) {
+        throw new Error(ERROR_MESSAGES.HEATS_ALREADY_STARTED)
+      }
+
+      // A heat moved back to pending may still hold results
+      if (existingHeats.length > 0) {
+        const existingEntries = await tx
+          .select({ score: heatEntries.score })
+          .from(heatEntries)
+          .where(
+            inArray(
+              heatEntries.heatId,
+              existingHeats.map((h) => h.id)
+            )
+          )
+
+        if (existingEntries.some((e) => e.score !== null)) {
+          throw new Error(ERROR_MESSAGES.HEATS_ALREADY_STARTED)
+        }
+      }
+
+      const registrationCount = await tx
+        .select({ id: registrations.id })
+        .from(registrations)
+        .where(eq(registrations.eventId, eventId))
+
+      if (registrationCount.length === 0) {
+        throw new Error(ERROR_MESSAGES.NO_REGISTRATIONS)
+      }
+
+      const created = await generateEventHeats(event, tx)
+      await updateEventCompletedStatus(eventId, tx)
+
+      return created
+    })
+
+    const generatedData: HeatsGeneratedData = {
+      eventId,
+      heats: await Promise.all(createdHeats.map((heat) => buildHeatData(heat))),
+    }
+
+    io.to(`event_${eventId}`).emit(SOCKET_EVENTS.HEATS_GENERATED, generatedData)
+    io.to(`event_${eventId}`).emit(
+      SOCKET_EVENTS.EVENT_LEADERBOARD,
+      await getEventLeaderboard(eventId)
+    )
+
+    console.log(
+      `User ${userData.id} generated ${createdHeats.length} heats for event ${eventId}`
+    )
+  } catch (error) {
+    console.error('[generateHeats] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const assignHeat = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: AssignHeatData
+): Promise<void> => {
+  try {
+    const { registrationId, heatId } = data
+
+    if (!registrationId || !heatId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Registration ID and heat ID are required')
+      return
+    }
+
+    const loaded = await loadHeatForUpdate(socket, userData, heatId)
+    if (!loaded) return
+
+    const { event } = loaded
+
+    const changedHeats = await db.transaction(async (tx) => {
+      const heat = await lockHeat(heatId, tx)
+
+      if (!heat) {
+        throw new Error(ERROR_MESSAGES.HEAT_NOT_FOUND)
+      }
+
+      if (heat.status !== 'pending') {
+        throw new Error(ERROR_MESSAGES.HEAT_NOT_PENDING)
+      }
+
+      const registration = await tx
+        .select({ eventId: registrations.eventId })
+        .from(registrations)
+        .where(eq(registrations.id, registrationId))
+        .limit(1)
+
+      if (registration.length === 0) {
+        throw new Error(ERROR_MESSAGES.REGISTRATION_NOT_FOUND)
+      }
+
+      if (registration[0].eventId !== heat.eventId) {
+        throw new Error(ERROR_MESSAGES.REGISTRATION_NOT_IN_EVENT)
+      }
+
+      const entries = await getHeatEntries(heatId, tx)
+
+      if (entries.some((e) => e.registrationId === registrationId)) {
+        return [heat]
+      }
+
+      if (entries.length >= getPlayersPerHeat(event)) {
+        throw new Error(ERROR_MESSAGES.HEAT_FULL)
+      }
+
+      // The heat the registration leaves must not have started either
+      const currentEntry = await tx
+        .select({ heatId: heatEntries.heatId })
+        .from(heatEntries)
+        .where(eq(heatEntries.registrationId, registrationId))
+        .limit(1)
+
+      let previousHeat: Heat | null = null
+      if (currentEntry.length > 0) {
+        previousHeat = await lockHeat(currentEntry[0].heatId, tx)
+
+        if (previousHeat && previousHeat.status !== 'pending') {
+          throw new Error(ERROR_MESSAGES.HEAT_NOT_PENDING)
+        }
+      }
+
+      await moveRegistrationToHeat(registrationId, heatId, tx)
+
+      return previousHeat ? [previousHeat, heat] : [heat]
+    })
+
+    await broadcastHeatsAndLeaderboard(io, event.id, changedHeats, userData)
+
+    console.log(
+      `User ${userData.id} moved registration ${registrationId} to heat ${heatId}`
+    )
+  } catch (error) {
+    console.error('[assignHeat] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const updateHeatStatus = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: UpdateHeatStatusData
+): Promise<void> => {
+  try {
+    const { heatId, status } = data
+
+    if (!heatId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Heat ID is required')
+      return
+    }
+
+    if (!isValidHeatStatus(status)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_HEAT_STATUS)
+      return
+    }
+
+    const loaded = await loadHeatForUpdate(socket, userData, heatId)
+    if (!loaded) return
+
+    const { result, previousStatus } = await db.transaction(async (tx) => {
+      const heat = await lockHeat(heatId, tx)
+
+      if (!heat) {
+        throw new Error(ERROR_MESSAGES.HEAT_NOT_FOUND)
+      }
+
+      if (!canTransitionHeatStatus(heat.status, status)) {
+        throw new Error(
+          `${ERROR_MESSAGES.INVALID_STATUS_TRANSITION} (${heat.status} -> ${status})`
+        )
+      }
+
+      if (status === 'finished') {
+        const entries = await getHeatEntries(heatId, tx)
+
+        if (entries.some((e) => e.score === null)) {
+          throw new Error(ERROR_MESSAGES.HEAT_RESULTS_MISSING)
+        }
+      }
+
+      const updated = await setHeatStatus(heat, status, tx)
+      await updateEventCompletedStatus(heat.eventId, tx)
+
+      return { result: updated, previousStatus: heat.status }
+    })
+
+    await broadcastHeatsAndLeaderboard(io, result.eventId, [result], userData)
+
+    console.log(
+      `User ${userData.id} changed heat ${heatId} from ${previousStatus} to ${status}`
+    )
+  } catch (error) {
+    console.error('[updateHeatStatus] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const recordHeatResult = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RecordHeatResultData
+): Promise<void> => {
+  try {
+    const { heatId, registrationId, score } = data
+
+    if (!heatId || !registrationId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Heat ID and registration ID are required')
+      return
+    }
+
+    if (score !== null && (!Number.isInteger(score) || score < 0)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_HEAT_SCORE)
+      return
+    }
+
+    const loaded = await loadHeatForUpdate(socket, userData, heatId)
+    if (!loaded) return
+
+    const heat = await db.transaction(async (tx) => {
+      const lockedHeat = await lockHeat(heatId, tx)
+
+      if (!lockedHeat) {
+        throw new Error(ERROR_MESSAGES.HEAT_NOT_FOUND)
+      }
+
+      if (lockedHeat.status !== 'in-progress') {
+        throw new Error(ERROR_MESSAGES.HEAT_NOT_IN_PROGRESS)
+      }
+
+      const entry = await tx
+        .select({ id: heatEntries.id })
+        .from(heatEntries)
+        .where(
+          and(
+            eq(heatEntries.heatId, heatId),
+            eq(heatEntries.registrationId, registrationId)
+          )
+        )
+        .limit(1)
+
+      if (entry.length === 0) {
+        throw new Error(ERROR_MESSAGES.REGISTRATION_NOT_IN_HEAT)
+      }
+
+      await setHeatEntryScore(entry[0].id, score, tx)
+
+      return lockedHeat
+    })
+
+    await broadcastHeatsAndLeaderboard(io, heat.eventId, [heat], userData)
+
+    console.log(
+      `User ${userData.id} recorded ${score} for registration ${registrationId} in heat ${heatId}`
+    )
+  } catch (error) {
+    console.error('[recordHeatResult] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -0,0 +1,486 @@
+import { Server, Socket } from 'socket.io'
+import { eq } from 'drizzle-orm'
+import { db, DbTransaction } from '../config/db.config'
+import { matches, sets, Match, Event, Set as MatchSet } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import { validateSetScore, validateSetPlayed } from '../utils/validation'
+import { checkEventUpdateAuthorization } from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  UndoActionData,
+  RedoActionData,
+  ActionHistoryData,
+  MatchCompletedData,
+  MatchRevertedData,
+} from '../types/socket.types'
+import {
+  markSetPlayedAndCheckCompletion,
+  getStartedDownstreamMatches,
+  reverseMatchCompletion,
+  syncRubberResult,
+  lockMatch,
+} from '../utils/match-completion'
+import { getMatchById, getEventById } from '../services/match.service'
+import { getSetById, createMatchSet, lockSet } from '../services/set.service'
+import {
+  reconcilePointLog,
+  syncSetScoreFromLog,
+} from '../services/point.service'
+import { getMatchResultSets } from '../services/rubber.service'
+import {
+  ScoringAction,
+  SetScoreSnapshot,
+  peekUndoAction,
+  peekRedoAction,
+  commitUndo,
+  commitRedo,
+  replaceSetIdInHistory,
+  updateSetVersionInHistory,
+  canUndo,
+  canRedo,
+  toActionSummary,
+} from '../services/action-history.service'
+import { enrichMatch } from '../services/match-enrichment.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import {
+  broadcastBracketUpdated,
+  broadcastMatchReverted,
+  emitVersionConflict,
+  getMatchRooms,
+} from './match.controller'
+import {
+  broadcastGroupStandings,
+  broadcastGroupQualification,
+} from './group.controller'
+import { broadcastEventResults } from './placement.controller'
+import { nextVersion, VersionConflictError } from '../utils/versioning'
+
+interface ActionContext {
+  io: Server
+  userData: UserData
+  match: Match
+  event: Event
+}
+
+// Returns an error message, or null when the action was applied
+type ActionResult = Promise<string | null>
+
+/**
+ * Locks the action's match and set and checks that the set is still as the
+ * action left it; a change made since by another device is a version conflict
+ */
+const lockActionSet = async (action: ScoringAction, tx: DbTransaction) => {
+  const lockedMatch = await lockMatch(action.matchId, tx)
+
+  if (!lockedMatch) {
+    throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+  }
+
+  const lockedSet = await lockSet(action.setId, tx)
+
+  if (!lockedSet) {
+    throw new Error(ERROR_MESSAGES.SET_NOT_FOUND)
+  }
+
+  if (lockedSet.version !== action.setVersion) {
+    throw new VersionConflictError(
+      'set',
+      action.setId,
+      action.matchId,
+      action.setVersion,
+      lockedSet.version
+    )
+  }
+
+  return { lockedMatch, lockedSet }
+}
+
+/**
+ * Puts a set back to a score snapshot, through its rally log. Runs under
+ * lockActionSet, with the snapshot validated against the locked set
+ */
+const applySetScoreSnapshot = async (
+  action: ScoringAction,
+  snapshot: SetScoreSnapshot,
+  match: Match,
+  userId: string,
+  tx: DbTransaction
+): Promise<MatchSet> => {
+  const validation = await validateSetScore(
+    action.setId,
+    snapshot.registration1Score,
+    snapshot.registration2Score,
+    tx
+  )
+
+  if (!validation.valid) {
+    throw new Error(validation.error)
+  }
+
+  await reconcilePointLog(action.setId, match, snapshot, userId, tx)
+
+  return syncSetScoreFromLog(action.setId, tx)
+}
+
+const undoScoringAction = async (
+  context: ActionContext,
+  action: ScoringAction
+): ActionResult => {
+  const { io, match, event } = context
+
+  switch (action.type) {
+    case 'set-score': {
+      const updated = await db.transaction(async (tx) => {
+        const { lockedMatch } = await lockActionSet(action, tx)
+        return applySetScoreSnapshot(
+          action,
+          action.before,
+          lockedMatch,
+          context.userData.id,
+          tx
+        )
+      })
+
+      updateSetVersionInHistory(match.id, action.setId, updated.version)
+      return null
+    }
+
+    case 'set-played': {
+      const { updated, matchRevertedData } = await db.transaction(async (tx) => {
+        const { lockedMatch, lockedSet } = await lockActionSet(action, tx)
+
+        if (!lockedSet.played) {
+          throw new Error(ERROR_MESSAGES.SET_NOT_PLAYED)
+        }
+
+        let matchRevertedData: MatchRevertedData | null = null
+
+        // Undoing the set that decided the match reverses its result; a
+        // walkover or retirement is reopened with update-match
+        if (lockedMatch.played) {
+          if (lockedMatch.status !== 'completed') {
+            throw new Error(ERROR_MESSAGES.MATCH_ALREADY_PLAYED)
+          }
+
+          const startedDownstream = await getStartedDownstreamMatches(
+            lockedMatch,
+            tx
+          )
+
+          if (startedDownstream.length > 0) {
+            throw new Error(ERROR_MESSAGES.DOWNSTREAM_MATCH_STARTED)
+          }
+
+          const playedSets = await getMatchResultSets(lockedMatch, tx)
+          const revertedMatchIds = await reverseMatchCompletion(
+            lockedMatch,
+            event,
+            playedSets,
+            tx
+          )
+
+          matchRevertedData = {
+            matchId: lockedMatch.id,
+            previousWinnerId: lockedMatch.winnerId,
+            revertedMatchIds,
+          }
+        }
+
+        const updatedSet = await tx
+          .update(sets)
+          .set({
+            played: false,
+            version: nextVersion(sets.version),
+            updatedAt: new Date(),
+          })
+          .where(eq(sets.id, lockedSet.id))
+          .returning()
+
+        if (lockedSet.rubberId) {
+          await syncRubberResult(lockedSet.rubberId, lockedMatch, event, tx)
+        }
+
+        return { updated: updatedSet[0], matchRevertedData }
+      })
+
+      updateSetVersionInHistory(match.id, action.setId, updated.version)
+
+      if (matchRevertedData) {
+        broadcastMatchReverted(io, match, matchRevertedData)
+        await broadcastGroupStandings(io, event, match.groupId)
+        await broadcastEventResults(io, event)
+      }
+
+      return null
+    }
+
+    case 'set-created': {
+      // Removing a set changes the match, like adding it did
+      await db.transaction(async (tx) => {
+        const { lockedSet } = await lockActionSet(action, tx)
+
+        if (lockedSet.played) {
+          throw new Error(ERROR_MESSAGES.SET_ALREADY_PLAYED)
+        }
+
+        await tx.delete(sets).where(eq(sets.id, lockedSet.id))
+        await tx
+          .update(matches)
+          .set({ version: nextVersion(matches.version), updatedAt: new Date() })
+          .where(eq(matches.id, action.matchId))
+      })
+
+      return null
+    }
+  }
+}
+
+const redoScoringAction = async (
+  context: ActionContext,
+  action: ScoringAction
+): ActionResult => {
+  const { io, match, event } = context
+
+  if (action.type === 'set-created') {
+    const createdSet = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(match.id, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      if (lockedMatch.played) {
+        throw new Error(ERROR_MESSAGES.MATCH_ALREADY_PLAYED)
+      }
+
+      if (lockedMatch.status !== 'in-progress') {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_IN_PROGRESS)
+      }
+
+      const newSet = await createMatchSet(
+        {
+          matchId: match.id,
+          rubberId: action.rubberId,
+          setNumber: action.setNumber,
+        },
+        tx
+      )
+
+      if (!newSet) {
+        throw new Error('Failed to create set')
+      }
+
+      await tx
+        .update(matches)
+        .set({ version: nextVersion(matches.version), updatedAt: new Date() })
+        .where(eq(matches.id, match.id))
+
+      return newSet
+    })
+
+    replaceSetIdInHistory(match.id, action.setId, createdSet.id)
+    updateSetVersionInHistory(match.id, createdSet.id, createdSet.version)
+    return null
+  }
+
+  if (action.type === 'set-score') {
+    const updated = await db.transaction(async (tx) => {
+      const { lockedMatch } = await lockActionSet(action, tx)
+      return applySetScoreSnapshot(
+        action,
+        action.after,
+        lockedMatch,
+        context.userData.id,
+        tx
+      )
+    })
+
+    updateSetVersionInHistory(match.id, action.setId, updated.version)
+    return null
+  }
+
+  const setData = await getSetById(action.setId)
+  if (!setData) return ERROR_MESSAGES.SET_NOT_FOUND
+
+  if (setData.played) return ERROR_MESSAGES.SET_ALREADY_PLAYED
+
+  const playedValidation = await validateSetPlayed(
+    setData.id,
+    setData.registration1Score,
+    setData.registration2Score
+  )
+  if (!playedValidation.valid) {
+    return playedValidation.error || 'Cannot mark set as played'
+  }
+
+  // The completion pipeline checks the set version under its own locks
+  const result = await markSetPlayedAndCheckCompletion(
+    setData.id,
+    event,
+    action.setVersion
+  )
+
+  updateSetVersionInHistory(match.id, action.setId, result.set.version)
+
+  if (result.matchCompleted && result.winnerId) {
+    const matchCompletedData: MatchCompletedData = {
+      matchId: match.id,
+      winnerId: result.winnerId,
+    }
+    io.to(getMatchRooms(match)).emit(
+      SOCKET_EVENTS.MATCH_COMPLETED,
+      matchCompletedData
+    )
+  }
+
+  await broadcastBracketUpdated(io, event, result.routedMatchIds)
+
+  if (result.matchCompleted) {
+    await broadcastGroupStandings(io, event, match.groupId)
+    await broadcastGroupQualification(io, event, match.groupId)
+    await broadcastEventResults(io, event)
+  }
+
+  return null
+}
+
+/**
+ * Shared flow for undo and redo: authorize, apply the action, then broadcast
+ * the corrected match state to the match room
+ */
+const handleHistoryCommand = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  matchId: string,
+  direction: 'undo' | 'redo'
+): Promise<void> => {
+  if (!matchId) {
+    socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+    return
+  }
+
+  const match = await getMatchById(matchId)
+
+  if (!match) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+    return
+  }
+
+  const event = await getEventById(match.eventId)
+
+  if (!event) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+    return
+  }
+
+  const authCheck = await checkEventUpdateAuthorization(userData, {
+    organizationId: event.organizationId,
+  })
+
+  if (!authCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+    return
+  }
+
+  const claimCheck = checkScorerClaim(matchId, socket.id)
+
+  if (!claimCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+    return
+  }
+
+  const action =
+    direction === 'undo' ? peekUndoAction(matchId) : peekRedoAction(matchId)
+
+  if (!action) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      direction === 'undo'
+        ? ERROR_MESSAGES.NOTHING_TO_UNDO
+        : ERROR_MESSAGES.NOTHING_TO_REDO
+    )
+    return
+  }
+
+  const context: ActionContext = { io, userData, match, event }
+  const error =
+    direction === 'undo'
+      ? await undoScoringAction(context, action)
+      : await redoScoringAction(context, action)
+
+  if (error) {
+    socket.emit(SOCKET_EVENTS.ERROR, error)
+    return
+  }
+
+  const updatedMatch = await getMatchById(matchId)
+  if (!updatedMatch) return
+
+  if (direction === 'undo') {
+    commitUndo(matchId)
+  } else {
+    commitRedo(matchId)
+  }
+
+  const historyData: ActionHistoryData = {
+    matchId,
+    action: toActionSummary(action),
+    match: await enrichMatch(updatedMatch, event),
+    canUndo: canUndo(matchId),
+    canRedo: canRedo(matchId),
+  }
+
+  io.to(getMatchRooms(updatedMatch)).emit(
+    direction === 'undo'
+      ? SOCKET_EVENTS.ACTION_UNDONE
+      : SOCKET_EVENTS.ACTION_REDONE,
+    historyData
+  )
+
+  console.log(
+    `User ${userData.id} ${direction === 'undo' ? 'undid' : 'redid'} ${action.type} on match ${matchId}`
+  )
+}
+
+export const undoAction = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: UndoActionData
+): Promise<void> => {
+  try {
+    await handleHistoryCommand(io, socket, userData, data.matchId, 'undo')
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[undoAction] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const redoAction = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RedoActionData
+): Promise<void> => {
+  try {
+    await handleHistoryCommand(io, socket, userData, data.matchId, 'redo')
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[redoAction] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
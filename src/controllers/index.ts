@@ -3,4 +3,17 @@ export * from './connection.controller'
 export * from './room.controller'
 export * from './match.controller'
 export * from './set.controller'
-
+export * from './point.controller'
+export * from './history.controller'
+export * from './scorer.controller'
+export * from './result.controller'
+export * from './position.controller'
+export * from './heat.controller'
+export * from './tie.controller'
+export * from './relay.controller'
+export * from './group.controller'
+export * from './bracket.controller'
+export * from './placement.controller'
+export * from './ranking.controller'
+export * from './court.controller'
+export * from './schedule.controller'
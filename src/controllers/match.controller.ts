@@ -1,9 +1,9 @@
 import { Server, Socket } from 'socket.io'
-import { eq } from 'drizzle-orm'
+import { eq, SQL } from 'drizzle-orm'
 import { db } from '../config/db.config'
-import { matches, events } from '../db/schema'
+import { matches, events, Match, Event } from '../db/schema'
 import { UserData } from '../middlewares/auth.middleware'
-import { validateMatchCompletion } from '../utils/validation'
+import { validateMatchCompletion, isByeMatch } from '../utils/validation'
 import { checkMatchAccess, checkEventUpdateAuthorization } from '../utils/authorization'
 import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
 import {
@@ -12,8 +12,176 @@ import {
   MatchDataResponse,
   MatchUpdatedData,
   MatchCompletedData,
+  MatchRevertedData,
+  MatchStatusChangedData,
+  ChangeMatchStatusData,
+  VersionConflictData,
+  BracketUpdatedData,
 } from '../types/socket.types'
 import { enrichMatch } from '../services/match-enrichment.service'
+import { getMatchResultSets } from '../services/rubber.service'
+import { getBracketNodes } from '../services/bracket.service'
+import { getMatchById, getEventById } from '../services/match.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import { clearActionHistory } from '../services/action-history.service'
+import { getScheduleDay } from '../services/schedule.service'
+import {
+  broadcastGroupStandings,
+  broadcastGroupQualification,
+} from './group.controller'
+import { broadcastEventResults } from './placement.controller'
+import { broadcastCourtUpdated } from './court.controller'
+import { broadcastScheduleDelays } from './schedule.controller'
+import {
+  completeMatch,
+  updateStageCompletion,
+  getStartedDownstreamMatches,
+  reverseMatchCompletion,
+  lockMatch,
+} from '../utils/match-completion'
+import {
+  nextVersion,
+  isValidVersion,
+  VersionConflictError,
+} from '../utils/versioning'
+import {
+  MatchStatus,
+  canTransitionMatchStatus,
+  isResultStatus,
+  isValidMatchStatus,
+  recordMatchStatusChange,
+  setMatchStatus,
+} from '../utils/match-status'
+
+/**
+ * Rooms that follow a match: its own, its event's and, for a group match,
+ * its group's
+ */
+export const getMatchRooms = (
+  match: Pick<Match, 'id' | 'eventId' | 'groupId'>
+): string[] => {
+  return [
+    `match_${match.id}`,
+    `event_${match.eventId}`,
+    ...(match.groupId ? [`group_${match.groupId}`] : []),
+  ]
+}
+
+/**
+ * Notifies the rooms following the match and every affected match room that
+ * a result was reverted, including BYE matches reverted in the cascade, and
+ * the match's court, which it is back on
+ */
+export const broadcastMatchReverted = (
+  io: Server,
+  match: Pick<Match, 'id' | 'eventId' | 'groupId' | 'courtId'>,
+  matchRevertedData: MatchRevertedData
+): void => {
+  io.to([
+    ...getMatchRooms(match),
+    ...matchRevertedData.revertedMatchIds.map(
+      (revertedMatchId) => `match_${revertedMatchId}`
+    ),
+  ]).emit(SOCKET_EVENTS.MATCH_REVERTED, matchRevertedData)
+
+  broadcastCourtUpdated(io, match.courtId)
+}
+
+/**
+ * Notifies the rooms following the match of a lifecycle transition, its
+ * court, whose now playing / up next follows the match's status, and, for a
+ * match with a start time, the matches of the day whose expected start moved
+ */
+export const broadcastMatchStatusChanged = (
+  io: Server,
+  match: Match,
+  previousStatus: MatchStatus,
+  changedBy: string | null,
+  reason: string | null = null
+): void => {
+  const matchStatusChangedData: MatchStatusChangedData = {
+    matchId: match.id,
+    status: match.status,
+    previousStatus,
+    changedAt: (match.statusChangedAt ?? match.updatedAt).toISOString(),
+    changedBy,
+    reason,
+    version: match.version,
+  }
+
+  io.to(getMatchRooms(match)).emit(
+    SOCKET_EVENTS.MATCH_STATUS_CHANGED,
+    matchStatusChangedData
+  )
+
+  broadcastCourtUpdated(io, match.courtId)
+
+  if (match.scheduledAt && match.matchDate) {
+    broadcastScheduleDelays(io, match.matchDate)
+  }
+}
+
+/**
+ * Notifies the event room and the rooms of the bracket matches a result
+ * placed a registration into (next round, losers bracket, third place),
+ * including matches completed as BYEs in the cascade
+ */
+export const broadcastBracketUpdated = async (
+  io: Server,
+  event: Event,
+  routedMatchIds: string[]
+): Promise<void> => {
+  if (routedMatchIds.length === 0) return
+
+  const changedMatchIds = [...new Set(routedMatchIds)]
+
+  const routedMatches: MatchDataResponse[] = []
+  for (const routedMatchId of changedMatchIds) {
+    const routedMatch = await getMatchById(routedMatchId)
+    if (routedMatch) {
+      routedMatches.push(await enrichMatch(routedMatch, event))
+    }
+  }
+
+  const bracketUpdatedData: BracketUpdatedData = {
+    eventId: event.id,
+    matches: routedMatches,
+    nodes: await getBracketNodes(event, changedMatchIds),
+  }
+
+  io.to([
+    `event_${event.id}`,
+    ...changedMatchIds.map((routedMatchId) => `match_${routedMatchId}`),
+  ]).emit(SOCKET_EVENTS.BRACKET_UPDATED, bracketUpdatedData)
+}
+
+/**
+ * Tells the client its command was based on a stale version and sends the
+ * current match state so it can reconcile
+ */
+export const emitVersionConflict = async (
+  socket: Socket,
+  conflict: VersionConflictError
+): Promise<void> => {
+  const match = await getMatchById(conflict.matchId)
+  const event = match ? await getEventById(match.eventId) : null
+
+  if (!match || !event) {
+    socket.emit(SOCKET_EVENTS.ERROR, conflict.message)
+    return
+  }
+
+  const versionConflictData: VersionConflictData = {
+    message: conflict.message,
+    entity: conflict.entity,
+    entityId: conflict.entityId,
+    expectedVersion: conflict.expectedVersion,
+    currentVersion: conflict.currentVersion,
+    match: await enrichMatch(match, event),
+  }
+
+  socket.emit(SOCKET_EVENTS.VERSION_CONFLICT, versionConflictData)
+}
 
 export const getMatch = async (
   socket: Socket,
@@ -74,13 +242,18 @@ export const updateMatch = async (
   data: UpdateMatchData
 ): Promise<void> => {
   try {
-    const { matchId, played, matchDate } = data
+    const { matchId, played, matchDate, version } = data
 
     if (!matchId) {
       socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
       return
     }
 
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
     const matchResults = await db.select().from(matches).where(eq(matches.id, matchId)).limit(1)
 
     if (matchResults.length === 0) {
@@ -108,55 +281,375 @@ export const updateMatch = async (
       return
     }
 
-    const updateData: {
-      played?: boolean
-      winnerId?: string | null
-      matchDate?: string | null
-      updatedAt: Date
-    } = { updatedAt: new Date() }
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    // The version check, result cascade and field update commit together
+    const result = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(matchId, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      if (lockedMatch.version !== version) {
+        throw new VersionConflictError(
+          'match',
+          matchId,
+          matchId,
+          version,
+          lockedMatch.version
+        )
+      }
+
+      const updateData: {
+        played?: boolean
+        winnerId?: string | null
+        matchDate?: string | null
+        scheduledAt?: Date | null
+        status?: MatchStatus
+        statusChangedAt?: Date
+        version: SQL
+        updatedAt: Date
+      } = { version: nextVersion(matches.version), updatedAt: new Date() }
+
+      let completedWinnerId: string | null = null
+      let matchRevertedData: MatchRevertedData | null = null
+      let routedMatchIds: string[] = []
+
+      if (played === true && !lockedMatch.played) {
+        // BYE matches complete straight from any open state
+        if (
+          !isByeMatch(lockedMatch) &&
+          !canTransitionMatchStatus(lockedMatch.status, 'completed')
+        ) {
+          throw new Error(ERROR_MESSAGES.INVALID_STATUS_TRANSITION)
+        }
 
-    if (played !== undefined) {
-      if (played === true && !match.played) {
         const validation = await validateMatchCompletion(matchId)
 
         if (!validation.valid) {
-          socket.emit(SOCKET_EVENTS.ERROR, validation.error)
-          return
+          throw new Error(validation.error)
         }
 
-        updateData.played = true
-        updateData.winnerId = validation.winnerId
-
         if (validation.winnerId) {
-          const matchCompletedData: MatchCompletedData = { matchId, winnerId: validation.winnerId }
-          io.to(`match_${matchId}`).emit(SOCKET_EVENTS.MATCH_COMPLETED, matchCompletedData)
+          // Apply standings and bracket advancement like a scored completion
+          const playedSets = await getMatchResultSets(lockedMatch, tx)
+          routedMatchIds = await completeMatch(
+            lockedMatch,
+            event,
+            validation.winnerId,
+            playedSets,
+            { status: 'completed', changedBy: userData.id },
+            tx
+          )
+          completedWinnerId = validation.winnerId
+        } else {
+          updateData.played = true
+          updateData.winnerId = null
+          updateData.status = 'completed'
+          updateData.statusChangedAt = new Date()
+          await recordMatchStatusChange(
+            matchId,
+            lockedMatch.status,
+            'completed',
+            userData.id,
+            null,
+            tx
+          )
+        }
+      } else if (played === false && lockedMatch.played) {
+        const startedDownstream = await getStartedDownstreamMatches(lockedMatch, tx)
+
+        if (startedDownstream.length > 0) {
+          throw new Error(ERROR_MESSAGES.DOWNSTREAM_MATCH_STARTED)
+        }
+
+        const playedSets = await getMatchResultSets(lockedMatch, tx)
+        const revertedMatchIds = await reverseMatchCompletion(
+          lockedMatch,
+          event,
+          playedSets,
+          tx
+        )
+
+        matchRevertedData = {
+          matchId,
+          previousWinnerId: lockedMatch.winnerId,
+          revertedMatchIds,
         }
-      } else if (played === false && match.played) {
-        updateData.played = false
-        updateData.winnerId = null
       }
-    }
 
-    if (matchDate !== undefined) {
-      updateData.matchDate = matchDate || null
-    }
+      if (matchDate !== undefined) {
+        updateData.matchDate = matchDate || null
 
-    await db.update(matches).set(updateData).where(eq(matches.id, matchId))
+        // A start time on another day no longer holds
+        if (
+          lockedMatch.scheduledAt &&
+          getScheduleDay(lockedMatch.scheduledAt) !== updateData.matchDate
+        ) {
+          updateData.scheduledAt = null
+        }
+      }
 
-    const updatedMatchResults = await db.select().from(matches).where(eq(matches.id, matchId)).limit(1)
-    const updatedMatch = updatedMatchResults[0]
+      const updated = await tx
+        .update(matches)
+        .set(updateData)
+        .where(eq(matches.id, matchId))
+        .returning()
+
+      return {
+        updatedMatch: updated[0],
+        previousStatus: lockedMatch.status,
+        completedWinnerId,
+        matchRevertedData,
+        routedMatchIds,
+      }
+    })
+
+    const {
+      updatedMatch,
+      previousStatus,
+      completedWinnerId,
+      matchRevertedData,
+      routedMatchIds,
+    } = result
+
+    if (completedWinnerId) {
+      const matchCompletedData: MatchCompletedData = {
+        matchId,
+        winnerId: completedWinnerId,
+      }
+      io.to(getMatchRooms(match)).emit(SOCKET_EVENTS.MATCH_COMPLETED, matchCompletedData)
+    }
 
     const matchUpdatedData: MatchUpdatedData = {
       matchId,
       played: updatedMatch.played,
       matchDate: updatedMatch.matchDate || undefined,
       winnerId: updatedMatch.winnerId || null,
+      status: updatedMatch.status,
+      version: updatedMatch.version,
+    }
+
+    io.to(getMatchRooms(match)).emit(SOCKET_EVENTS.MATCH_UPDATED, matchUpdatedData)
+
+    // Scoring actions from before a reversal can no longer be undone
+    if (matchRevertedData) {
+      clearActionHistory(matchId)
     }
 
-    io.to(`match_${matchId}`).emit(SOCKET_EVENTS.MATCH_UPDATED, matchUpdatedData)
+    if (updatedMatch.status !== previousStatus) {
+      broadcastMatchStatusChanged(io, updatedMatch, previousStatus, userData.id)
+    }
+
+    if (matchRevertedData) {
+      broadcastMatchReverted(io, match, matchRevertedData)
+    }
+
+    await broadcastBracketUpdated(io, event, routedMatchIds)
+
+    if (completedWinnerId || matchRevertedData) {
+      await broadcastGroupStandings(io, event, match.groupId)
+    }
+
+    if (completedWinnerId) {
+      await broadcastGroupQualification(io, event, match.groupId)
+    }
+
+    if (completedWinnerId || matchRevertedData) {
+      await broadcastEventResults(io, event)
+    }
     console.log(`User ${userData.id} updated match ${matchId}`)
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
     socket.emit(SOCKET_EVENTS.ERROR, error instanceof Error ? error.message : 'Unknown error')
   }
 }
 
+export const changeMatchStatus = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ChangeMatchStatusData
+): Promise<void> => {
+  try {
+    const { matchId, status, version } = data
+    const reason = data.reason?.trim() || null
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    if (!isValidMatchStatus(status)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_MATCH_STATUS)
+      return
+    }
+
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
+    if (status === 'walkover' || status === 'retired') {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.RESULT_STATUS_NOT_SUPPORTED)
+      return
+    }
+
+    const match = await getMatchById(matchId)
+
+    if (!match) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(match.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(matchId, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      if (lockedMatch.version !== version) {
+        throw new VersionConflictError(
+          'match',
+          matchId,
+          matchId,
+          version,
+          lockedMatch.version
+        )
+      }
+
+      if (!canTransitionMatchStatus(lockedMatch.status, status)) {
+        throw new Error(
+          `${ERROR_MESSAGES.INVALID_STATUS_TRANSITION} (${lockedMatch.status} -> ${status})`
+        )
+      }
+
+      // Reopening reverses the result, which update-match already handles
+      if (isResultStatus(lockedMatch.status)) {
+        throw new Error(ERROR_MESSAGES.REOPEN_WITH_UPDATE_MATCH)
+      }
+
+      if (status !== 'completed') {
+        const updatedMatch = await setMatchStatus(
+          lockedMatch,
+          status,
+          userData.id,
+          reason,
+          tx
+        )
+
+        // A cancelled match no longer holds up its group and event
+        const stageChanged =
+          status === 'cancelled' || lockedMatch.status === 'cancelled'
+
+        return {
+          updatedMatch,
+          previousStatus: lockedMatch.status,
+          winnerId: null,
+          stageChanged,
+          routedMatchIds: stageChanged
+            ? await updateStageCompletion(lockedMatch, event, tx)
+            : [],
+        }
+      }
+
+      const validation = await validateMatchCompletion(matchId)
+
+      if (!validation.valid || !validation.winnerId) {
+        throw new Error(validation.error || 'Cannot determine the match winner')
+      }
+
+      const playedSets = await getMatchResultSets(lockedMatch, tx)
+      const routedMatchIds = await completeMatch(
+        lockedMatch,
+        event,
+        validation.winnerId,
+        playedSets,
+        { status: 'completed', changedBy: userData.id, reason },
+        tx
+      )
+
+      const updatedMatch = await lockMatch(matchId, tx)
+
+      if (!updatedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      return {
+        updatedMatch,
+        previousStatus: lockedMatch.status,
+        winnerId: validation.winnerId,
+        stageChanged: true,
+        routedMatchIds,
+      }
+    })
+
+    const { updatedMatch, previousStatus, winnerId, stageChanged, routedMatchIds } =
+      result
+
+    broadcastMatchStatusChanged(
+      io,
+      updatedMatch,
+      previousStatus,
+      userData.id,
+      reason
+    )
+
+    if (winnerId) {
+      const matchCompletedData: MatchCompletedData = { matchId, winnerId }
+      io.to(getMatchRooms(match)).emit(SOCKET_EVENTS.MATCH_COMPLETED, matchCompletedData)
+    }
+
+    await broadcastBracketUpdated(io, event, routedMatchIds)
+
+    if (stageChanged) {
+      await broadcastGroupStandings(io, event, match.groupId)
+      await broadcastGroupQualification(io, event, match.groupId)
+      await broadcastEventResults(io, event)
+    }
+
+    console.log(
+      `User ${userData.id} changed match ${matchId} status from ${previousStatus} to ${status}`
+    )
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[changeMatchStatus] Error:', error)
+    socket.emit(SOCKET_EVENTS.ERROR, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
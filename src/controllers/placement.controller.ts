@@ -0,0 +1,71 @@
+import { Server, Socket } from 'socket.io'
+import { Event } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import { checkEventReadAuthorization } from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import { GetEventResultsData } from '../types/socket.types'
+import { getEventById } from '../services/match.service'
+import { getEventResults } from '../services/placement.service'
+import { broadcastRankingUpdated } from './ranking.controller'
+
+/**
+ * Sends the placements and ranking points of an event to the event room when
+ * a result completed it, changed its outcome or reopened it, and the
+ * federation ranking it counts towards to the federation room. `event` is the
+ * event as loaded before the result, so reopening sends the emptied results
+ */
+export const broadcastEventResults = async (
+  io: Server,
+  event: Event
+): Promise<void> => {
+  const current = await getEventById(event.id)
+  if (!current || !(current.completed || event.completed)) return
+
+  io.to(`event_${event.id}`).emit(
+    SOCKET_EVENTS.EVENT_RESULTS,
+    await getEventResults(current)
+  )
+
+  await broadcastRankingUpdated(io, current)
+}
+
+export const getResults = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetEventResultsData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.emit(SOCKET_EVENTS.EVENT_RESULTS, await getEventResults(event))
+    console.log(`User ${userData.id} fetched results for event ${eventId}`)
+  } catch (error) {
+    console.error('[getResults] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
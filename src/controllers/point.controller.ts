@@ -0,0 +1,288 @@
+import { Server, Socket } from 'socket.io'
+import { db, DbTransaction } from '../config/db.config'
+import { Match, Set as MatchSet } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import { validateSetScore } from '../utils/validation'
+import { checkEventUpdateAuthorization } from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  ScorePointData,
+  RemovePointData,
+  MatchScoreUpdatedData,
+} from '../types/socket.types'
+import { getSetById, lockSet } from '../services/set.service'
+import { getMatchById, getEventById } from '../services/match.service'
+import {
+  PointSide,
+  isValidSide,
+  recordPoint,
+  removeLastPoint,
+  reconcilePointLog,
+  syncSetScoreFromLog,
+} from '../services/point.service'
+import { recordAction } from '../services/action-history.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import { autoPlaySetIfOver } from './set.controller'
+import { getMatchRooms } from './match.controller'
+import { lockMatch } from '../utils/match-completion'
+
+/**
+ * Loads a set with its match and event and checks the user may score it.
+ * Emits the error and returns null when the set cannot be scored.
+ * The set may change before it is locked; callers re-check under the lock
+ */
+const loadSetForScoring = async (
+  socket: Socket,
+  userData: UserData,
+  setId: string
+) => {
+  const setData = await getSetById(setId)
+
+  if (!setData) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.SET_NOT_FOUND)
+    return null
+  }
+
+  const match = await getMatchById(setData.matchId)
+
+  if (!match) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+    return null
+  }
+
+  const event = await getEventById(match.eventId)
+
+  if (!event) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+    return null
+  }
+
+  const authCheck = await checkEventUpdateAuthorization(userData, {
+    organizationId: event.organizationId,
+  })
+
+  if (!authCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+    return null
+  }
+
+  const claimCheck = checkScorerClaim(match.id, socket.id)
+
+  if (!claimCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+    return null
+  }
+
+  return { setData, match, event }
+}
+
+/**
+ * Locks the match and then the set, and checks that the set can still take
+ * the new score: another scorer may have played the set or completed the
+ * match since it was loaded
+ */
+const lockSetForScoring = async (
+  setId: string,
+  matchId: string,
+  score: (set: MatchSet) => {
+    registration1Score: number
+    registration2Score: number
+  },
+  tx: DbTransaction
+): Promise<MatchSet> => {
+  await lockMatch(matchId, tx)
+  const lockedSet = await lockSet(setId, tx)
+
+  if (!lockedSet) {
+    throw new Error(ERROR_MESSAGES.SET_NOT_FOUND)
+  }
+
+  const { registration1Score, registration2Score } = score(lockedSet)
+  const validation = await validateSetScore(
+    setId,
+    registration1Score,
+    registration2Score,
+    tx
+  )
+
+  if (!validation.valid) {
+    throw new Error(validation.error)
+  }
+
+  return lockedSet
+}
+
+/**
+ * Records the score change for undo and broadcasts the set's new score, which
+ * syncSetScoreFromLog wrote from the rally log in the same transaction
+ */
+const broadcastScore = (
+  io: Server,
+  userData: UserData,
+  match: Match,
+  before: MatchSet,
+  updated: MatchSet
+) => {
+  recordAction({
+    type: 'set-score',
+    matchId: updated.matchId,
+    setId: updated.id,
+    setVersion: updated.version,
+    userId: userData.id,
+    createdAt: new Date(),
+    before: {
+      registration1Score: before.registration1Score,
+      registration2Score: before.registration2Score,
+      played: before.played,
+    },
+    after: {
+      registration1Score: updated.registration1Score,
+      registration2Score: updated.registration2Score,
+      played: updated.played,
+    },
+  })
+
+  const matchScoreData: MatchScoreUpdatedData = {
+    matchId: updated.matchId,
+    setId: updated.id,
+    registration1Score: updated.registration1Score,
+    registration2Score: updated.registration2Score,
+    setNumber: updated.setNumber,
+    played: updated.played,
+    version: updated.version,
+  }
+
+  io.to(getMatchRooms(match)).emit(
+    SOCKET_EVENTS.MATCH_SCORE_UPDATED,
+    matchScoreData
+  )
+}
+
+export const scorePoint = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ScorePointData
+): Promise<void> => {
+  try {
+    const { setId, side } = data
+
+    if (!setId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Set ID is required')
+      return
+    }
+
+    if (!isValidSide(side)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_SIDE)
+      return
+    }
+
+    const context = await loadSetForScoring(socket, userData, setId)
+    if (!context) return
+
+    const { match, event } = context
+
+    // The rally and the score it adds up to commit together, one scorer at a time
+    const { before, updated } = await db.transaction(async (tx) => {
+      const lockedSet = await lockSetForScoring(
+        setId,
+        match.id,
+        (set) => ({
+          registration1Score: set.registration1Score + (side === 1 ? 1 : 0),
+          registration2Score: set.registration2Score + (side === 2 ? 1 : 0),
+        }),
+        tx
+      )
+
+      // A score entered before its rallies were logged gets them first
+      await reconcilePointLog(setId, match, lockedSet, userData.id, tx)
+
+      await recordPoint(
+        {
+          setId,
+          matchId: match.id,
+          side,
+          registrationId:
+            side === 1 ? match.registration1Id : match.registration2Id,
+          recordedBy: userData.id,
+        },
+        tx
+      )
+
+      return {
+        before: lockedSet,
+        updated: await syncSetScoreFromLog(setId, tx),
+      }
+    })
+
+    broadcastScore(io, userData, match, before, updated)
+    await autoPlaySetIfOver(io, userData, updated, event)
+
+    console.log(
+      `User ${userData.id} scored a point for side ${side} in set ${setId}`
+    )
+  } catch (error) {
+    console.error('[scorePoint] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const removePoint = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RemovePointData
+): Promise<void> => {
+  try {
+    const { setId, side } = data
+
+    if (!setId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Set ID is required')
+      return
+    }
+
+    if (side !== undefined && !isValidSide(side)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_SIDE)
+      return
+    }
+
+    const context = await loadSetForScoring(socket, userData, setId)
+    if (!context) return
+
+    const { match } = context
+
+    const { before, updated, removedSide } = await db.transaction(async (tx) => {
+      // Checks that the set is still editable; scores only ever go down here
+      const lockedSet = await lockSetForScoring(setId, match.id, (set) => set, tx)
+
+      await reconcilePointLog(setId, match, lockedSet, userData.id, tx)
+
+      const removed = await removeLastPoint(setId, side, tx)
+
+      if (!removed) {
+        throw new Error(ERROR_MESSAGES.NO_POINTS_TO_REMOVE)
+      }
+
+      return {
+        before: lockedSet,
+        updated: await syncSetScoreFromLog(setId, tx),
+        removedSide: removed.side as PointSide,
+      }
+    })
+
+    broadcastScore(io, userData, match, before, updated)
+
+    console.log(
+      `User ${userData.id} removed a point for side ${removedSide} in set ${setId}`
+    )
+  } catch (error) {
+    console.error('[removePoint] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
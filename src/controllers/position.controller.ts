@@ -0,0 +1,298 @@
+import { Server, Socket } from 'socket.io'
+import { db } from '../config/db.config'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventReadAuthorization,
+  checkEventUpdateAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  GetPositionScoresData,
+  AssignPositionsData,
+  UpdatePositionScoreData,
+  EventPositionScoresData,
+  PositionScoresUpdatedData,
+  RegistrationPositionScoresData,
+} from '../types/socket.types'
+import { getEventById } from '../services/match.service'
+import { getRegistrationById } from '../services/registration.service'
+import {
+  getEventPositionScores,
+  getRegistrationPositionScores,
+  lockRegistrationPlayers,
+  assignRegistrationPositions,
+  setPlayerPositionScore,
+} from '../services/position-score.service'
+import {
+  getEventPositions,
+  isValidPosition,
+  isValidPositionScore,
+  parsePositionScores,
+  validatePositionAssignments,
+} from '../utils/position-scoring'
+
+/**
+ * Sends a registration's updated totals to everyone watching the event's
+ * results board
+ */
+const broadcastPositionScores = (
+  io: Server,
+  registration: RegistrationPositionScoresData,
+  userData: UserData
+): void => {
+  const updatedData: PositionScoresUpdatedData = {
+    eventId: registration.eventId,
+    registration,
+    updatedBy: userData.id,
+  }
+
+  io.to(`event_${registration.eventId}`).emit(
+    SOCKET_EVENTS.POSITION_SCORES_UPDATED,
+    updatedData
+  )
+}
+
+export const getPositionScores = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetPositionScoresData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    if (!getEventPositions(event)) {
+      socket.emit(
+        SOCKET_EVENTS.ERROR,
+        `Position scoring is not used for ${event.eventType} events`
+      )
+      return
+    }
+
+    const boardData: EventPositionScoresData = {
+      eventId,
+      registrations: await getEventPositionScores(eventId),
+    }
+
+    socket.emit(SOCKET_EVENTS.EVENT_POSITION_SCORES, boardData)
+    console.log(`User ${userData.id} fetched position scores for event ${eventId}`)
+  } catch (error) {
+    console.error('[getPositionScores] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const assignPositions = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: AssignPositionsData
+): Promise<void> => {
+  try {
+    const { registrationId, assignments } = data
+
+    if (!registrationId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Registration ID is required')
+      return
+    }
+
+    if (!Array.isArray(assignments)) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Assignments are required')
+      return
+    }
+
+    const registration = await getRegistrationById(registrationId)
+
+    if (!registration) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.REGISTRATION_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(registration.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const links = await lockRegistrationPlayers(registrationId, tx)
+
+      const validation = validatePositionAssignments(
+        event,
+        links.map((link) => link.playerId),
+        assignments
+      )
+
+      if (!validation.valid) {
+        throw new Error(validation.error)
+      }
+
+      await assignRegistrationPositions(registrationId, assignments, tx)
+
+      return getRegistrationPositionScores(registrationId, tx)
+    })
+
+    if (!updated) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.REGISTRATION_NOT_FOUND)
+      return
+    }
+
+    broadcastPositionScores(io, updated, userData)
+
+    console.log(
+      `User ${userData.id} assigned positions for registration ${registrationId}`
+    )
+  } catch (error) {
+    console.error('[assignPositions] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const updatePositionScore = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: UpdatePositionScoreData
+): Promise<void> => {
+  try {
+    const { registrationId, playerId, position, score } = data
+
+    if (!registrationId || !playerId) {
+      socket.emit(
+        SOCKET_EVENTS.ERROR,
+        'Registration ID and player ID are required'
+      )
+      return
+    }
+
+    if (!isValidPosition(position)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_POSITION)
+      return
+    }
+
+    if (!isValidPositionScore(score)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_POSITION_SCORE)
+      return
+    }
+
+    const registration = await getRegistrationById(registrationId)
+
+    if (!registration) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.REGISTRATION_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(registration.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    const eventPositions = getEventPositions(event)
+
+    if (!eventPositions) {
+      socket.emit(
+        SOCKET_EVENTS.ERROR,
+        `Position scoring is not used for ${event.eventType} events`
+      )
+      return
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const links = await lockRegistrationPlayers(registrationId, tx)
+
+      const playerCount = links.length
+      if (playerCount < event.minPlayers || playerCount > event.maxPlayers) {
+        throw new Error(
+          `Registration has ${playerCount} players; this event requires between ${event.minPlayers} and ${event.maxPlayers}`
+        )
+      }
+
+      const link = links.find((l) => l.playerId === playerId)
+
+      if (!link) {
+        throw new Error(ERROR_MESSAGES.PLAYER_NOT_IN_REGISTRATION)
+      }
+
+      const positionScores = parsePositionScores(link.positionScores)
+
+      if (!eventPositions.includes(position) || !(position in positionScores)) {
+        throw new Error(ERROR_MESSAGES.POSITION_NOT_ASSIGNED)
+      }
+
+      await setPlayerPositionScore(
+        link.id,
+        positionScores,
+        position,
+        score,
+        tx
+      )
+
+      return getRegistrationPositionScores(registrationId, tx)
+    })
+
+    if (!updated) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.REGISTRATION_NOT_FOUND)
+      return
+    }
+
+    broadcastPositionScores(io, updated, userData)
+
+    console.log(
+      `User ${userData.id} set ${position} score of player ${playerId} in registration ${registrationId} to ${score}`
+    )
+  } catch (error) {
+    console.error('[updatePositionScore] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { Server, Socket } from 'socket.io'
+import { Event } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  SOCKET_EVENTS,
+  ERROR_MESSAGES,
+  DEFAULT_RANKING_BEST_RESULTS,
+} from '../config/constants'
+import { GetRankingData, RankingUpdatedData } from '../types/socket.types'
+import {
+  getFederationById,
+  getEventFederationId,
+  getFederationRanking,
+} from '../services/ranking.service'
+import { resolveBestResults } from '../utils/ranking'
+
+/**
+ * Sends the recomputed ranking tables of an event's type and gender to the
+ * federation room after the event's results changed. Private events and
+ * events outside a championship do not count towards a ranking
+ */
+export const broadcastRankingUpdated = async (
+  io: Server,
+  event: Event
+): Promise<void> => {
+  if (event.visibility !== 'public') return
+
+  const federationId = await getEventFederationId(event)
+  if (!federationId) return
+
+  const ranking = await getFederationRanking(
+    federationId,
+    { eventType: event.eventType, gender: event.gender },
+    DEFAULT_RANKING_BEST_RESULTS
+  )
+
+  const rankingUpdatedData: RankingUpdatedData = {
+    ...ranking,
+    eventId: event.id,
+  }
+
+  io.to(`federation_${federationId}`).emit(
+    SOCKET_EVENTS.RANKING_UPDATED,
+    rankingUpdatedData
+  )
+}
+
+export const getRanking = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetRankingData
+): Promise<void> => {
+  try {
+    const { federationId, eventType, gender, ageGroup } = data
+
+    if (!federationId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Federation ID is required')
+      return
+    }
+
+    const bestResults = resolveBestResults(data.bestResults)
+
+    if (bestResults === null) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_BEST_RESULTS)
+      return
+    }
+
+    const federation = await getFederationById(federationId)
+
+    if (!federation) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.FEDERATION_NOT_FOUND)
+      return
+    }
+
+    socket.emit(
+      SOCKET_EVENTS.FEDERATION_RANKING,
+      await getFederationRanking(
+        federationId,
+        { eventType, gender, ageGroup },
+        bestResults
+      )
+    )
+    console.log(
+      `User ${userData.id} fetched ranking for federation ${federationId}`
+    )
+  } catch (error) {
+    console.error('[getRanking] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -0,0 +1,200 @@
+import { Server, Socket } from 'socket.io'
+import { db } from '../config/db.config'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventReadAuthorization,
+  checkEventUpdateAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  GetRelayData,
+  RecordRelayLegData,
+  RelayLegRecordedData,
+} from '../types/socket.types'
+import { getEventById, lockEvent } from '../services/match.service'
+import { getRegistrationById } from '../services/registration.service'
+import { lockRegistrationPlayers } from '../services/position-score.service'
+import {
+  getRelayLegs,
+  getRelayTeam,
+  getRelayStandings,
+  addRelayLeg,
+  updateRelayLegScore,
+  removeRelayLeg,
+} from '../services/relay.service'
+import {
+  isRelayEvent,
+  updateEventCompletedStatus,
+} from '../utils/match-completion'
+import { broadcastEventResults } from './placement.controller'
+
+export const getRelay = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetRelayData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    if (!isRelayEvent(event.eventType)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.RELAY_NOT_SUPPORTED)
+      return
+    }
+
+    socket.emit(SOCKET_EVENTS.RELAY_STANDINGS, await getRelayStandings(eventId))
+    console.log(`User ${userData.id} fetched relay standings for event ${eventId}`)
+  } catch (error) {
+    console.error('[getRelay] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const recordRelayLeg = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RecordRelayLegData
+): Promise<void> => {
+  try {
+    const { registrationId, legNumber, score } = data
+
+    if (!registrationId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Registration ID is required')
+      return
+    }
+
+    if (!Number.isInteger(legNumber) || legNumber < 1) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_RELAY_LEG)
+      return
+    }
+
+    if (score !== null && (!Number.isInteger(score) || score < 0)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_RELAY_SCORE)
+      return
+    }
+
+    const registration = await getRegistrationById(registrationId)
+
+    if (!registration) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.REGISTRATION_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(registration.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    if (!isRelayEvent(event.eventType)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.RELAY_NOT_SUPPORTED)
+      return
+    }
+
+    const { team, standings } = await db.transaction(async (tx) => {
+      // Legs of other teams are recorded one at a time, so whichever team
+      // finishes last sees every other team finished
+      await lockEvent(event.id, tx)
+
+      const links = await lockRegistrationPlayers(registrationId, tx)
+
+      const playerCount = links.length
+      if (playerCount < event.minPlayers || playerCount > event.maxPlayers) {
+        throw new Error(
+          `Registration has ${playerCount} players; this event requires between ${event.minPlayers} and ${event.maxPlayers}`
+        )
+      }
+
+      // Leg N is run by the team's player N in running order
+      const runner = links[legNumber - 1]
+
+      if (!runner) {
+        throw new Error(ERROR_MESSAGES.INVALID_RELAY_LEG)
+      }
+
+      const legs = await getRelayLegs(registrationId, tx)
+      const existing = legs.find((l) => l.legNumber === legNumber)
+
+      if (score === null) {
+        if (!existing || legs[legs.length - 1].id !== existing.id) {
+          throw new Error(ERROR_MESSAGES.RELAY_LEG_NOT_LATEST)
+        }
+
+        await removeRelayLeg(existing.id, tx)
+      } else if (existing) {
+        await updateRelayLegScore(existing.id, score, tx)
+      } else if (legNumber === legs.length + 1) {
+        await addRelayLeg(registrationId, legNumber, runner.playerId, score, tx)
+      } else {
+        throw new Error(ERROR_MESSAGES.INVALID_RELAY_LEG)
+      }
+
+      await updateEventCompletedStatus(event.id, tx)
+
+      return {
+        team: await getRelayTeam(registration, tx),
+        standings: await getRelayStandings(event.id, tx),
+      }
+    })
+
+    const legRecordedData: RelayLegRecordedData = {
+      eventId: event.id,
+      team,
+      updatedBy: userData.id,
+    }
+
+    io.to(`event_${event.id}`).emit(
+      SOCKET_EVENTS.RELAY_LEG_RECORDED,
+      legRecordedData
+    )
+    io.to(`event_${event.id}`).emit(SOCKET_EVENTS.RELAY_STANDINGS, standings)
+
+    // The last leg completes the event, and clearing one reopens it
+    await broadcastEventResults(io, event)
+
+    console.log(
+      `User ${userData.id} recorded ${score} for leg ${legNumber} of registration ${registrationId}`
+    )
+  } catch (error) {
+    console.error('[recordRelayLeg] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
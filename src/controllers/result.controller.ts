@@ -0,0 +1,211 @@
+import { Server, Socket } from 'socket.io'
+import { db } from '../config/db.config'
+import { UserData } from '../middlewares/auth.middleware'
+import { isByeMatch } from '../utils/validation'
+import { checkEventUpdateAuthorization } from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  RecordWalkoverData,
+  RecordRetirementData,
+  MatchCompletedData,
+} from '../types/socket.types'
+import { getMatchById, getEventById } from '../services/match.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import { clearActionHistory } from '../services/action-history.service'
+import { lockMatch } from '../utils/match-completion'
+import { canTransitionMatchStatus } from '../utils/match-status'
+import { decideMatch, DecisionStatus } from '../utils/match-result'
+import { isValidVersion, VersionConflictError } from '../utils/versioning'
+import {
+  broadcastMatchStatusChanged,
+  broadcastBracketUpdated,
+  emitVersionConflict,
+  getMatchRooms,
+} from './match.controller'
+import {
+  broadcastGroupStandings,
+  broadcastGroupQualification,
+} from './group.controller'
+import { broadcastEventResults } from './placement.controller'
+
+/**
+ * Shared flow for walkovers and retirements: authorize, decide the match
+ * under its lock, then broadcast the result
+ */
+const handleDecision = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RecordWalkoverData | RecordRetirementData,
+  status: DecisionStatus
+): Promise<void> => {
+  const { matchId, winnerId, version } = data
+  const reason = data.reason?.trim() || null
+
+  if (!matchId) {
+    socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+    return
+  }
+
+  if (!winnerId) {
+    socket.emit(SOCKET_EVENTS.ERROR, 'Winner ID is required')
+    return
+  }
+
+  if (!isValidVersion(version)) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+    return
+  }
+
+  const match = await getMatchById(matchId)
+
+  if (!match) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+    return
+  }
+
+  const event = await getEventById(match.eventId)
+
+  if (!event) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+    return
+  }
+
+  const authCheck = await checkEventUpdateAuthorization(userData, {
+    organizationId: event.organizationId,
+  })
+
+  if (!authCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+    return
+  }
+
+  const claimCheck = checkScorerClaim(matchId, socket.id)
+
+  if (!claimCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+    return
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const lockedMatch = await lockMatch(matchId, tx)
+
+    if (!lockedMatch) {
+      throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+    }
+
+    if (lockedMatch.version !== version) {
+      throw new VersionConflictError(
+        'match',
+        matchId,
+        matchId,
+        version,
+        lockedMatch.version
+      )
+    }
+
+    // A BYE has no opponent to forfeit against
+    if (isByeMatch(lockedMatch)) {
+      throw new Error(ERROR_MESSAGES.BYE_MATCH_DECISION)
+    }
+
+    if (
+      winnerId !== lockedMatch.registration1Id &&
+      winnerId !== lockedMatch.registration2Id
+    ) {
+      throw new Error(ERROR_MESSAGES.WINNER_NOT_IN_MATCH)
+    }
+
+    if (!canTransitionMatchStatus(lockedMatch.status, status)) {
+      throw new Error(
+        `${ERROR_MESSAGES.INVALID_STATUS_TRANSITION} (${lockedMatch.status} -> ${status})`
+      )
+    }
+
+    const routedMatchIds = await decideMatch(
+      lockedMatch,
+      event,
+      winnerId,
+      status,
+      userData.id,
+      reason,
+      tx
+    )
+
+    const updatedMatch = await lockMatch(matchId, tx)
+
+    if (!updatedMatch) {
+      throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+    }
+
+    return { updatedMatch, previousStatus: lockedMatch.status, routedMatchIds }
+  })
+
+  // Scoring actions from before the decision can no longer be undone one by one
+  clearActionHistory(matchId)
+
+  broadcastMatchStatusChanged(
+    io,
+    result.updatedMatch,
+    result.previousStatus,
+    userData.id,
+    reason
+  )
+
+  const matchCompletedData: MatchCompletedData = { matchId, winnerId }
+  io.to(getMatchRooms(match)).emit(
+    SOCKET_EVENTS.MATCH_COMPLETED,
+    matchCompletedData
+  )
+
+  await broadcastBracketUpdated(io, event, result.routedMatchIds)
+  await broadcastGroupStandings(io, event, match.groupId)
+  await broadcastGroupQualification(io, event, match.groupId)
+  await broadcastEventResults(io, event)
+
+  console.log(
+    `User ${userData.id} recorded ${status} for match ${matchId}, winner ${winnerId}`
+  )
+}
+
+export const recordWalkover = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RecordWalkoverData
+): Promise<void> => {
+  try {
+    await handleDecision(io, socket, userData, data, 'walkover')
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[recordWalkover] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const recordRetirement = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: RecordRetirementData
+): Promise<void> => {
+  try {
+    await handleDecision(io, socket, userData, data, 'retired')
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[recordRetirement] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -1,8 +1,28 @@
 import { Socket } from 'socket.io'
 import { UserData } from '../middlewares/auth.middleware'
-import { checkMatchAccess } from '../utils/authorization'
-import { SOCKET_EVENTS } from '../config/constants'
-import { JoinMatchData, LeaveMatchData } from '../types/socket.types'
+import {
+  checkMatchAccess,
+  checkEventReadAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  JoinMatchData,
+  LeaveMatchData,
+  JoinEventData,
+  LeaveEventData,
+  JoinGroupData,
+  LeaveGroupData,
+  JoinHeatData,
+  LeaveHeatData,
+  JoinFederationData,
+  LeaveFederationData,
+  JoinCourtData,
+  LeaveCourtData,
+} from '../types/socket.types'
+import { getEventById, getGroupById } from '../services/match.service'
+import { getHeatById } from '../services/heat.service'
+import { getFederationById } from '../services/ranking.service'
+import { getCourtById } from '../services/court.service'
 
 export const joinMatch = async (
   socket: Socket,
@@ -55,3 +75,318 @@ export const leaveMatch = async (
     )
   }
 }
+
+export const joinEvent = async (
+  socket: Socket,
+  userData: UserData,
+  data: JoinEventData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    const event = await getEventById(eventId)
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.join(`event_${eventId}`)
+    console.log(`User ${userData.id} joined event ${eventId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const leaveEvent = async (
+  socket: Socket,
+  userData: UserData,
+  data: LeaveEventData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    socket.leave(`event_${eventId}`)
+    console.log(`User ${userData.id} left event ${eventId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const joinGroup = async (
+  socket: Socket,
+  userData: UserData,
+  data: JoinGroupData
+): Promise<void> => {
+  try {
+    const { groupId } = data
+
+    if (!groupId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Group ID is required')
+      return
+    }
+
+    const group = await getGroupById(groupId)
+    if (!group) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.GROUP_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(group.eventId)
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.join(`group_${groupId}`)
+    console.log(`User ${userData.id} joined group ${groupId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const leaveGroup = async (
+  socket: Socket,
+  userData: UserData,
+  data: LeaveGroupData
+): Promise<void> => {
+  try {
+    const { groupId } = data
+
+    if (!groupId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Group ID is required')
+      return
+    }
+
+    socket.leave(`group_${groupId}`)
+    console.log(`User ${userData.id} left group ${groupId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const joinHeat = async (
+  socket: Socket,
+  userData: UserData,
+  data: JoinHeatData
+): Promise<void> => {
+  try {
+    const { heatId } = data
+
+    if (!heatId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Heat ID is required')
+      return
+    }
+
+    const heat = await getHeatById(heatId)
+    if (!heat) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.HEAT_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(heat.eventId)
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.join(`heat_${heatId}`)
+    console.log(`User ${userData.id} joined heat ${heatId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const leaveHeat = async (
+  socket: Socket,
+  userData: UserData,
+  data: LeaveHeatData
+): Promise<void> => {
+  try {
+    const { heatId } = data
+
+    if (!heatId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Heat ID is required')
+      return
+    }
+
+    socket.leave(`heat_${heatId}`)
+    console.log(`User ${userData.id} left heat ${heatId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const joinCourt = async (
+  socket: Socket,
+  userData: UserData,
+  data: JoinCourtData
+): Promise<void> => {
+  try {
+    const { courtId } = data
+
+    if (!courtId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Court ID is required')
+      return
+    }
+
+    const court = await getCourtById(courtId)
+    if (!court) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.COURT_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(court.eventId)
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.join(`court_${courtId}`)
+    console.log(`User ${userData.id} joined court ${courtId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const leaveCourt = async (
+  socket: Socket,
+  userData: UserData,
+  data: LeaveCourtData
+): Promise<void> => {
+  try {
+    const { courtId } = data
+
+    if (!courtId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Court ID is required')
+      return
+    }
+
+    socket.leave(`court_${courtId}`)
+    console.log(`User ${userData.id} left court ${courtId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+// Federation rankings are public, so any connected user can follow them
+export const joinFederation = async (
+  socket: Socket,
+  userData: UserData,
+  data: JoinFederationData
+): Promise<void> => {
+  try {
+    const { federationId } = data
+
+    if (!federationId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Federation ID is required')
+      return
+    }
+
+    const federation = await getFederationById(federationId)
+    if (!federation) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.FEDERATION_NOT_FOUND)
+      return
+    }
+
+    socket.join(`federation_${federationId}`)
+    console.log(`User ${userData.id} joined federation ${federationId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const leaveFederation = async (
+  socket: Socket,
+  userData: UserData,
+  data: LeaveFederationData
+): Promise<void> => {
+  try {
+    const { federationId } = data
+
+    if (!federationId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Federation ID is required')
+      return
+    }
+
+    socket.leave(`federation_${federationId}`)
+    console.log(`User ${userData.id} left federation ${federationId}`)
+  } catch (error) {
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
@@ -0,0 +1,302 @@
+import { Server, Socket } from 'socket.io'
+import { db } from '../config/db.config'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventReadAuthorization,
+  checkEventUpdateAuthorization,
+} from '../utils/authorization'
+import {
+  SOCKET_EVENTS,
+  ERROR_MESSAGES,
+  SCHEDULE_CHECK_INTERVAL_MS,
+} from '../config/constants'
+import {
+  ScheduleMatchData,
+  GetScheduleData,
+  MatchScheduledData,
+  ScheduleConflictsData,
+  ScheduleDelayedData,
+} from '../types/socket.types'
+import { getMatchById, getEventById } from '../services/match.service'
+import {
+  getScheduleDay,
+  getDayScheduleSlots,
+  getMatchScheduleConflicts,
+  setMatchSchedule,
+  getEventSchedule,
+} from '../services/schedule.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import { lockCourt } from '../services/court.service'
+import { estimateMatchMinutes, projectSchedule } from '../utils/scheduling'
+import { lockMatch } from '../utils/match-completion'
+import { isValidVersion, VersionConflictError } from '../utils/versioning'
+import { emitVersionConflict, getMatchRooms } from './match.controller'
+
+// Last delay sent per match, so only changes are broadcast
+const sentDelays = new Map<string, number>()
+
+/**
+ * Re-projects the day's schedule and sends the matches whose expected start
+ * moved to their event and match rooms. Run when a match changes status and
+ * periodically, so a match overrunning its estimate pushes back the matches
+ * waiting for its court or players. Safe to call without awaiting it
+ */
+export const broadcastScheduleDelays = async (
+  io: Server,
+  date: string
+): Promise<void> => {
+  try {
+    const slots = await getDayScheduleSlots(date)
+    const delaysByEvent = new Map<string, ScheduleDelayedData['delays']>()
+
+    for (const projection of projectSchedule(slots, new Date())) {
+      const slot = slots.find((s) => s.matchId === projection.matchId)
+      if (!slot) continue
+
+      if (!projection.expectedStartAt) {
+        sentDelays.delete(projection.matchId)
+        continue
+      }
+
+      if ((sentDelays.get(projection.matchId) ?? 0) === projection.delayMinutes) {
+        continue
+      }
+
+      if (projection.delayMinutes > 0) {
+        sentDelays.set(projection.matchId, projection.delayMinutes)
+      } else {
+        sentDelays.delete(projection.matchId)
+      }
+
+      delaysByEvent.set(slot.eventId, [
+        ...(delaysByEvent.get(slot.eventId) ?? []),
+        {
+          matchId: slot.matchId,
+          scheduledAt: slot.scheduledAt.toISOString(),
+          expectedStartAt: projection.expectedStartAt.toISOString(),
+          delayMinutes: projection.delayMinutes,
+        },
+      ])
+    }
+
+    for (const [eventId, delays] of delaysByEvent) {
+      const scheduleDelayedData: ScheduleDelayedData = { eventId, date, delays }
+
+      io.to([
+        `event_${eventId}`,
+        ...delays.map((delay) => `match_${delay.matchId}`),
+      ]).emit(SOCKET_EVENTS.SCHEDULE_DELAYED, scheduleDelayedData)
+    }
+  } catch (error) {
+    console.error('[broadcastScheduleDelays] Error:', error)
+  }
+}
+
+/**
+ * Checks today's schedule for overruns every SCHEDULE_CHECK_INTERVAL_MS,
+ * since a match runs late without any status change
+ */
+export const startScheduleMonitor = (io: Server): void => {
+  setInterval(() => {
+    broadcastScheduleDelays(io, getScheduleDay(new Date()))
+  }, SCHEDULE_CHECK_INTERVAL_MS).unref()
+}
+
+export const scheduleMatch = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ScheduleMatchData
+): Promise<void> => {
+  try {
+    const { matchId, version, allowConflicts } = data
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
+    const scheduledAt =
+      data.scheduledAt === null ? null : new Date(data.scheduledAt)
+
+    if (
+      data.scheduledAt === undefined ||
+      (scheduledAt && Number.isNaN(scheduledAt.getTime()))
+    ) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_SCHEDULED_AT)
+      return
+    }
+
+    const match = await getMatchById(matchId)
+
+    if (!match) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(match.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    const { updatedMatch, previousMatchDate, conflicts } = await db.transaction(
+      async (tx) => {
+        // Courts are locked before their matches, as the court commands do
+        if (match.courtId) {
+          await lockCourt(match.courtId, tx)
+        }
+
+        const lockedMatch = await lockMatch(matchId, tx)
+
+        if (!lockedMatch) {
+          throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+        }
+
+        if (lockedMatch.version !== version) {
+          throw new VersionConflictError(
+            'match',
+            matchId,
+            matchId,
+            version,
+            lockedMatch.version
+          )
+        }
+
+        const conflicts = scheduledAt
+          ? await getMatchScheduleConflicts(lockedMatch, event, scheduledAt, tx)
+          : []
+
+        // Clashes are only kept when the organizer confirms them
+        if (conflicts.length > 0 && !allowConflicts) {
+          return { updatedMatch: null, previousMatchDate: null, conflicts }
+        }
+
+        return {
+          updatedMatch: await setMatchSchedule(lockedMatch, scheduledAt, tx),
+          previousMatchDate: lockedMatch.matchDate,
+          conflicts,
+        }
+      }
+    )
+
+    if (!updatedMatch) {
+      const scheduleConflictsData: ScheduleConflictsData = {
+        matchId,
+        scheduledAt: (scheduledAt as Date).toISOString(),
+        conflicts,
+      }
+      socket.emit(SOCKET_EVENTS.SCHEDULE_CONFLICTS, scheduleConflictsData)
+      return
+    }
+
+    const matchScheduledData: MatchScheduledData = {
+      matchId,
+      scheduledAt: updatedMatch.scheduledAt?.toISOString() ?? null,
+      matchDate: updatedMatch.matchDate,
+      estimatedEndAt: updatedMatch.scheduledAt
+        ? new Date(
+            updatedMatch.scheduledAt.getTime() +
+              estimateMatchMinutes(event) * 60 * 1000
+          ).toISOString()
+        : null,
+      version: updatedMatch.version,
+      conflicts,
+      scheduledBy: userData.id,
+    }
+
+    io.to(getMatchRooms(updatedMatch)).emit(
+      SOCKET_EVENTS.MATCH_SCHEDULED,
+      matchScheduledData
+    )
+
+    // The matches after it on the day it left and the day it joined shift
+    for (const date of new Set([previousMatchDate, updatedMatch.matchDate])) {
+      if (date) broadcastScheduleDelays(io, date)
+    }
+
+    console.log(
+      `User ${userData.id} scheduled match ${matchId} at ${matchScheduledData.scheduledAt}` +
+        (conflicts.length > 0 ? ` with ${conflicts.length} conflict(s)` : '')
+    )
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[scheduleMatch] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+export const getSchedule = async (
+  socket: Socket,
+  userData: UserData,
+  data: GetScheduleData
+): Promise<void> => {
+  try {
+    const { eventId } = data
+    const date = data.date || getScheduleDay(new Date())
+
+    if (!eventId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Event ID is required')
+      return
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_SCHEDULE_DATE)
+      return
+    }
+
+    const event = await getEventById(eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const accessCheck = await checkEventReadAuthorization(userData, {
+      organizationId: event.organizationId,
+      visibility: event.visibility,
+    })
+
+    if (!accessCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, accessCheck.error || 'Access denied')
+      return
+    }
+
+    socket.emit(SOCKET_EVENTS.SCHEDULE_DATA, await getEventSchedule(event, date))
+    console.log(`User ${userData.id} fetched schedule for event ${eventId} on ${date}`)
+  } catch (error) {
+    console.error('[getSchedule] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
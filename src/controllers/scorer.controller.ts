@@ -0,0 +1,199 @@
+import { Server, Socket } from 'socket.io'
+import { UserData } from '../middlewares/auth.middleware'
+import {
+  checkEventUpdateAuthorization,
+  checkEventAdminAuthorization,
+} from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import {
+  ClaimScoringData,
+  ReleaseScoringData,
+  ScorerChangedData,
+} from '../types/socket.types'
+import { getMatchById, getEventById } from '../services/match.service'
+import {
+  getScorerClaim,
+  setScorerClaim,
+  clearScorerClaim,
+  clearDeviceClaims,
+} from '../services/scorer-claim.service'
+
+const broadcastScorerChanged = (
+  io: Server,
+  scorerChangedData: ScorerChangedData
+): void => {
+  io.to(`match_${scorerChangedData.matchId}`).emit(
+    SOCKET_EVENTS.SCORER_CHANGED,
+    scorerChangedData
+  )
+}
+
+/**
+ * Loads the match's event and checks the user may score it.
+ * Emits the error and returns null when the user cannot.
+ */
+const loadEventForScoring = async (
+  socket: Socket,
+  userData: UserData,
+  matchId: string
+) => {
+  const match = await getMatchById(matchId)
+
+  if (!match) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+    return null
+  }
+
+  const event = await getEventById(match.eventId)
+
+  if (!event) {
+    socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+    return null
+  }
+
+  const authCheck = await checkEventUpdateAuthorization(userData, {
+    organizationId: event.organizationId,
+  })
+
+  if (!authCheck.authorized) {
+    socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+    return null
+  }
+
+  return event
+}
+
+export const claimScoring = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ClaimScoringData
+): Promise<void> => {
+  try {
+    const { matchId, force } = data
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    // The scoring device must be following the match room
+    if (!socket.rooms.has(`match_${matchId}`)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_JOINED)
+      return
+    }
+
+    const event = await loadEventForScoring(socket, userData, matchId)
+    if (!event) return
+
+    const current = getScorerClaim(matchId)
+    const takingOver = current !== null && current.deviceId !== socket.id
+
+    if (takingOver) {
+      if (!force) {
+        socket.emit(
+          SOCKET_EVENTS.ERROR,
+          `${ERROR_MESSAGES.SCORING_CLAIMED} (${current.userName})`
+        )
+        return
+      }
+
+      // Moving one's own claim to another device needs no admin rights
+      if (current.userId !== userData.id) {
+        const adminCheck = await checkEventAdminAuthorization(userData, {
+          organizationId: event.organizationId,
+        })
+
+        if (!adminCheck.authorized) {
+          socket.emit(SOCKET_EVENTS.ERROR, adminCheck.error || 'Permission denied')
+          return
+        }
+      }
+    }
+
+    const scorer = setScorerClaim(matchId, socket.id, userData, (expired) => {
+      broadcastScorerChanged(io, {
+        matchId,
+        scorer: null,
+        previousScorerId: expired.userId,
+        reason: 'expired',
+      })
+      console.log(`Scoring claim of user ${expired.userId} on match ${matchId} expired`)
+    })
+
+    // Re-claiming extends the claim; only broadcast when the holder changes
+    if (current?.deviceId !== socket.id) {
+      broadcastScorerChanged(io, {
+        matchId,
+        scorer,
+        previousScorerId: current?.userId ?? null,
+        reason: takingOver ? 'forced' : 'claimed',
+      })
+    }
+
+    console.log(
+      `User ${userData.id} ${takingOver ? 'force-took' : 'claimed'} scoring for match ${matchId}`
+    )
+  } catch (error) {
+    console.error('[claimScoring] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
+
+/**
+ * Frees the claims of a disconnected device: its socket can never score again,
+ * and a reconnect comes back as a new device that claims afresh
+ */
+export const releaseDeviceClaims = (io: Server, socket: Socket): void => {
+  for (const { matchId, claim } of clearDeviceClaims(socket.id)) {
+    broadcastScorerChanged(io, {
+      matchId,
+      scorer: null,
+      previousScorerId: claim.userId,
+      reason: 'disconnected',
+    })
+  }
+}
+
+export const releaseScoring = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: ReleaseScoringData
+): Promise<void> => {
+  try {
+    const { matchId } = data
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    const current = getScorerClaim(matchId)
+
+    if (!current || current.deviceId !== socket.id) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.NOT_SCORER)
+      return
+    }
+
+    clearScorerClaim(matchId)
+
+    broadcastScorerChanged(io, {
+      matchId,
+      scorer: null,
+      previousScorerId: userData.id,
+      reason: 'released',
+    })
+
+    console.log(`User ${userData.id} released scoring for match ${matchId}`)
+  } catch (error) {
+    console.error('[releaseScoring] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
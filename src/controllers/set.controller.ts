@@ -1,10 +1,21 @@
 import { Server, Socket } from 'socket.io'
 import { eq, asc } from 'drizzle-orm'
 import { db } from '../config/db.config'
-import { matches, sets, events } from '../db/schema'
+import {
+  matches,
+  sets,
+  events,
+  setCorrections,
+  Event,
+  Rubber,
+  Set as MatchSet,
+} from '../db/schema'
 import { UserData } from '../middlewares/auth.middleware'
 import { validateSetScore, validateSetPlayed } from '../utils/validation'
-import { checkEventUpdateAuthorization } from '../utils/authorization'
+import {
+  checkEventUpdateAuthorization,
+  checkEventAdminAuthorization,
+} from '../utils/authorization'
 import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
 import {
   CreateSetData,
@@ -14,18 +25,206 @@ import {
   MatchScoreUpdatedData,
   SetPlayedData,
   MatchCompletedData,
+  CorrectSetData,
+  SetCorrectedData,
+  RubberCompletedData,
 } from '../types/socket.types'
 import {
-  isGroupsFormat,
-  isSingleEliminationFormat,
-  isDoubleEliminationFormat,
-  handleGroupsMatchCompletion,
-  handleSingleEliminationMatchCompletion,
-  handleDoubleEliminationMatchCompletion,
-  updateGroupCompletionStatus,
-  updateEventCompletedStatus,
+  markSetPlayedAndCheckCompletion,
   checkMajorityAndGetWinner,
+  completeMatch,
+  getStartedDownstreamMatches,
+  reverseMatchCompletion,
+  isGroupStageMatch,
+  calculateMatchPoints,
+  calculateSetPoints,
+  updateRegistrationStandings,
+  syncRubberResult,
+  lockMatch,
+  SetResult,
 } from '../utils/match-completion'
+import { syncGroupQualification } from '../utils/qualification'
+import { getMatchById } from '../services/match.service'
+import {
+  getSetsForMatch,
+  lockSet,
+  countsTowardsResult,
+} from '../services/set.service'
+import {
+  getRubbersForMatch,
+  toRubberData,
+  toRubberResults,
+} from '../services/rubber.service'
+import { enrichRegistrationWithPlayers } from '../services/registration.service'
+import {
+  broadcastMatchReverted,
+  broadcastMatchStatusChanged,
+  broadcastBracketUpdated,
+  emitVersionConflict,
+  getMatchRooms,
+} from './match.controller'
+import {
+  broadcastGroupStandings,
+  broadcastGroupQualification,
+} from './group.controller'
+import { broadcastEventResults } from './placement.controller'
+import {
+  reconcilePointLog,
+  syncSetScoreFromLog,
+} from '../services/point.service'
+import {
+  recordAction,
+  clearActionHistory,
+} from '../services/action-history.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import {
+  getScoringRules,
+  getSetRules,
+  isSetOver,
+} from '../utils/scoring-rules'
+import {
+  nextVersion,
+  isValidVersion,
+  VersionConflictError,
+} from '../utils/versioning'
+
+const broadcastRubberCompleted = async (
+  io: Server,
+  rubber: Rubber,
+  matchCompleted: boolean,
+  winnerId: string | null
+): Promise<void> => {
+  const match = await getMatchById(rubber.matchId)
+  if (!match) return
+
+  const registration1 = match.registration1Id
+    ? await enrichRegistrationWithPlayers(match.registration1Id)
+    : null
+  const registration2 = match.registration2Id
+    ? await enrichRegistrationWithPlayers(match.registration2Id)
+    : null
+
+  const rubberCompletedData: RubberCompletedData = {
+    matchId: rubber.matchId,
+    rubber: toRubberData(rubber, registration1, registration2),
+    matchCompleted,
+    winnerId,
+  }
+
+  io.to(getMatchRooms(match)).emit(
+    SOCKET_EVENTS.RUBBER_COMPLETED,
+    rubberCompletedData
+  )
+}
+
+/**
+ * Marks a set as played, completing the match when the set decides it, then
+ * records the action and broadcasts once the completion transaction has committed
+ */
+export const playSetAndBroadcast = async (
+  io: Server,
+  userData: UserData,
+  setId: string,
+  event: Event,
+  expectedVersion?: number
+): Promise<{ matchCompleted: boolean; winnerId: string | null }> => {
+  const {
+    set: updated,
+    matchCompleted,
+    winnerId,
+    previousStatus,
+    rubber,
+    routedMatchIds,
+  } = await markSetPlayedAndCheckCompletion(setId, event, expectedVersion)
+  const matchId = updated.matchId
+
+  // Undoing the set that completed the match reverses the result
+  recordAction({
+    type: 'set-played',
+    matchId,
+    setId,
+    setVersion: updated.version,
+    userId: userData.id,
+    createdAt: new Date(),
+  })
+
+  const match = await getMatchById(matchId)
+  const rooms = match ? getMatchRooms(match) : [`match_${matchId}`]
+
+  if (matchCompleted && winnerId) {
+    const matchCompletedData: MatchCompletedData = { matchId, winnerId }
+    io.to(rooms).emit(SOCKET_EVENTS.MATCH_COMPLETED, matchCompletedData)
+
+    if (match) {
+      broadcastMatchStatusChanged(io, match, previousStatus, null)
+    }
+  }
+
+  const setPlayedData: SetPlayedData = {
+    matchId,
+    set: {
+      id: updated.id,
+      matchId: updated.matchId,
+      rubberId: updated.rubberId,
+      setNumber: updated.setNumber,
+      registration1Score: updated.registration1Score,
+      registration2Score: updated.registration2Score,
+      played: updated.played,
+      resultType: updated.resultType,
+      version: updated.version,
+      createdAt: updated.createdAt.toISOString(),
+      updatedAt: updated.updatedAt.toISOString(),
+    },
+    matchCompleted,
+    winnerId,
+  }
+
+  io.to(rooms).emit(SOCKET_EVENTS.SET_PLAYED, setPlayedData)
+
+  if (rubber?.played) {
+    await broadcastRubberCompleted(io, rubber, matchCompleted, winnerId)
+  }
+
+  await broadcastBracketUpdated(io, event, routedMatchIds)
+
+  if (matchCompleted && match) {
+    await broadcastGroupStandings(io, event, match.groupId)
+    await broadcastGroupQualification(io, event, match.groupId)
+    await broadcastEventResults(io, event)
+  }
+
+  return { matchCompleted, winnerId }
+}
+
+/**
+ * Closes the set on its own once the score finishes it under the event's
+ * scoring rules. Sets that cannot be played yet (e.g. an earlier set is still
+ * open) are left for mark-set-played.
+ */
+export const autoPlaySetIfOver = async (
+  io: Server,
+  userData: UserData,
+  set: MatchSet,
+  event: Event
+): Promise<boolean> => {
+  if (set.played) return false
+
+  const setRules = getSetRules(event, set.setNumber)
+  if (!isSetOver(setRules, set.registration1Score, set.registration2Score)) {
+    return false
+  }
+
+  const playedValidation = await validateSetPlayed(
+    set.id,
+    set.registration1Score,
+    set.registration2Score
+  )
+  if (!playedValidation.valid) return false
+
+  await playSetAndBroadcast(io, userData, set.id, event)
+  console.log(`Set ${set.id} reached its target and was marked as played`)
+  return true
+}
 
 export const createSet = async (
   io: Server,
@@ -34,13 +233,18 @@ export const createSet = async (
   data: CreateSetData
 ): Promise<void> => {
   try {
-    const { matchId, setNumber } = data
+    const { matchId, rubberId, setNumber, version } = data
 
     if (!matchId) {
       socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
       return
     }
 
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
     const matchResults = await db
       .select()
       .from(matches)
@@ -76,21 +280,69 @@ export const createSet = async (
       return
     }
 
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
     if (match.played) {
       socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_ALREADY_PLAYED)
       return
     }
 
+    if (match.status !== 'in-progress') {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_IN_PROGRESS)
+      return
+    }
+
     if (!match.matchDate) {
       socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_DATE_REQUIRED)
       return
     }
 
-    const existingSets = await db
-      .select()
-      .from(sets)
-      .where(eq(sets.matchId, matchId))
-      .orderBy(asc(sets.setNumber))
+    // In a team tie sets belong to a rubber, and rubbers are played in order
+    const tieRubbers = await getRubbersForMatch(matchId)
+
+    if (tieRubbers.length === 0 && getScoringRules(event).rubbersPerTie !== null) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.TIE_NOT_CREATED)
+      return
+    }
+
+    if (tieRubbers.length > 0) {
+      const rubber = tieRubbers.find((r) => r.id === rubberId)
+
+      if (!rubber) {
+        socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.RUBBER_REQUIRED)
+        return
+      }
+
+      if (rubber.played) {
+        socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.RUBBER_ALREADY_PLAYED)
+        return
+      }
+
+      if (
+        tieRubbers.some((r) => r.rubberNumber < rubber.rubberNumber && !r.played)
+      ) {
+        socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.PREVIOUS_RUBBERS_NOT_PLAYED)
+        return
+      }
+    } else if (rubberId) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.RUBBER_NOT_FOUND)
+      return
+    }
+
+    const setRubberId = tieRubbers.length > 0 ? (rubberId as string) : null
+
+    const existingSets = (
+      await db
+        .select()
+        .from(sets)
+        .where(eq(sets.matchId, matchId))
+        .orderBy(asc(sets.setNumber))
+    ).filter((s) => s.rubberId === setRubberId)
 
     const calculatedSetNumber = setNumber ?? existingSets.length + 1
 
@@ -121,43 +373,89 @@ export const createSet = async (
       }
     }
 
-    const newSet = await db
-      .insert(sets)
-      .values({
-        matchId,
-        setNumber: calculatedSetNumber,
-        registration1Score: 0,
-        registration2Score: 0,
-        played: false,
-      })
-      .returning()
+    // Adding a set changes the match, so it claims the match version
+    const { createdSet, matchVersion } = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(matchId, tx)
 
-    if (newSet.length === 0) {
-      socket.emit(SOCKET_EVENTS.ERROR, 'Failed to create set')
-      return
-    }
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
 
-    const createdSet = newSet[0]
+      if (lockedMatch.version !== version) {
+        throw new VersionConflictError(
+          'match',
+          matchId,
+          matchId,
+          version,
+          lockedMatch.version
+        )
+      }
+
+      const newSet = await tx
+        .insert(sets)
+        .values({
+          matchId,
+          rubberId: setRubberId,
+          setNumber: calculatedSetNumber,
+          registration1Score: 0,
+          registration2Score: 0,
+          played: false,
+        })
+        .returning()
+
+      if (newSet.length === 0) {
+        throw new Error('Failed to create set')
+      }
+
+      const updatedMatch = await tx
+        .update(matches)
+        .set({
+          version: nextVersion(matches.version),
+          updatedAt: new Date(),
+        })
+        .where(eq(matches.id, matchId))
+        .returning({ version: matches.version })
+
+      return { createdSet: newSet[0], matchVersion: updatedMatch[0].version }
+    })
 
     const setCreatedData: SetCreatedData = {
       matchId,
       set: {
         id: createdSet.id,
         matchId: createdSet.matchId,
+        rubberId: createdSet.rubberId,
         setNumber: createdSet.setNumber,
         registration1Score: createdSet.registration1Score,
         registration2Score: createdSet.registration2Score,
         played: createdSet.played,
+        version: createdSet.version,
         createdAt: createdSet.createdAt,
         updatedAt: createdSet.updatedAt,
       },
+      matchVersion,
     }
 
-    io.to(`match_${matchId}`).emit(SOCKET_EVENTS.SET_CREATED, setCreatedData)
+    recordAction({
+      type: 'set-created',
+      matchId,
+      setId: createdSet.id,
+      setVersion: createdSet.version,
+      setNumber: createdSet.setNumber,
+      rubberId: createdSet.rubberId,
+      userId: userData.id,
+      createdAt: new Date(),
+    })
+
+    io.to(getMatchRooms(match)).emit(SOCKET_EVENTS.SET_CREATED, setCreatedData)
     console.log(
       `User ${userData.id} created set ${createdSet.id} for match ${matchId}`
     )
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
     socket.emit(
       SOCKET_EVENTS.ERROR,
       error instanceof Error ? error.message : 'Unknown error'
@@ -172,13 +470,19 @@ export const updateSetScore = async (
   data: UpdateSetScoreData
 ): Promise<void> => {
   try {
-    const { setId, registration1Score, registration2Score, played } = data
+    const { setId, registration1Score, registration2Score, played, version } =
+      data
 
     if (!setId) {
       socket.emit(SOCKET_EVENTS.ERROR, 'Set ID is required')
       return
     }
 
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
     const setResults = await db
       .select()
       .from(sets)
@@ -228,6 +532,13 @@ export const updateSetScore = async (
       return
     }
 
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
     const validation = await validateSetScore(
       setId,
       registration1Score,
@@ -239,12 +550,6 @@ export const updateSetScore = async (
       return
     }
 
-    const updateData: any = {
-      registration1Score,
-      registration2Score,
-      updatedAt: new Date(),
-    }
-
     if (played === true && !setData.played) {
       const playedValidation = await validateSetPlayed(
         setId,
@@ -256,22 +561,73 @@ export const updateSetScore = async (
         socket.emit(SOCKET_EVENTS.ERROR, playedValidation.error)
         return
       }
-
-      updateData.played = true
     }
 
-    const updatedSet = await db
-      .update(sets)
-      .set(updateData)
-      .where(eq(sets.id, setId))
-      .returning()
+    // played: true is applied afterwards through the completion pipeline
+    const updated = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(matchId, tx)
+      const lockedSet = await lockSet(setId, tx)
 
-    if (updatedSet.length === 0) {
-      socket.emit(SOCKET_EVENTS.ERROR, 'Failed to update set')
-      return
-    }
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      if (!lockedSet) {
+        throw new Error(ERROR_MESSAGES.SET_NOT_FOUND)
+      }
+
+      if (lockedSet.version !== version) {
+        throw new VersionConflictError(
+          'set',
+          setId,
+          matchId,
+          version,
+          lockedSet.version
+        )
+      }
+
+      // Re-checked under the locks: the set or match may have been played since
+      const lockedValidation = await validateSetScore(
+        setId,
+        registration1Score,
+        registration2Score,
+        tx
+      )
+
+      if (!lockedValidation.valid) {
+        throw new Error(lockedValidation.error)
+      }
+
+      // The log is brought to the absolute score, and the set follows the log
+      await reconcilePointLog(
+        setId,
+        lockedMatch,
+        { registration1Score, registration2Score },
+        userData.id,
+        tx
+      )
 
-    const updated = updatedSet[0]
+      return syncSetScoreFromLog(setId, tx)
+    })
+
+    recordAction({
+      type: 'set-score',
+      matchId,
+      setId,
+      setVersion: updated.version,
+      userId: userData.id,
+      createdAt: new Date(),
+      before: {
+        registration1Score: setData.registration1Score,
+        registration2Score: setData.registration2Score,
+        played: setData.played,
+      },
+      after: {
+        registration1Score: updated.registration1Score,
+        registration2Score: updated.registration2Score,
+        played: updated.played,
+      },
+    })
 
     const matchScoreData: MatchScoreUpdatedData = {
       matchId,
@@ -280,15 +636,27 @@ export const updateSetScore = async (
       registration2Score: updated.registration2Score,
       setNumber: updated.setNumber,
       played: updated.played,
+      version: updated.version,
     }
 
-    io.to(`match_${matchId}`).emit(
+    io.to(getMatchRooms(match)).emit(
       SOCKET_EVENTS.MATCH_SCORE_UPDATED,
       matchScoreData
     )
 
+    // Closing the set goes through the same completion as mark-set-played
+    if (played === true && !updated.played) {
+      await playSetAndBroadcast(io, userData, setId, event)
+    } else {
+      await autoPlaySetIfOver(io, userData, updated, event)
+    }
+
     console.log(`User ${userData.id} updated set ${setId} in match ${matchId}`)
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
     socket.emit(
       SOCKET_EVENTS.ERROR,
       error instanceof Error ? error.message : 'Unknown error'
@@ -303,13 +671,18 @@ export const markSetPlayed = async (
   data: MarkSetPlayedData
 ): Promise<void> => {
   try {
-    const { setId } = data
+    const { setId, version } = data
 
     if (!setId) {
       socket.emit(SOCKET_EVENTS.ERROR, 'Set ID is required')
       return
     }
 
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
     const setResults = await db
       .select()
       .from(sets)
@@ -364,6 +737,13 @@ export const markSetPlayed = async (
       return
     }
 
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
     const playedValidation = await validateSetPlayed(
       setId,
       setData.registration1Score,
@@ -375,96 +755,406 @@ export const markSetPlayed = async (
       return
     }
 
-    const updatedSet = await db
-      .update(sets)
-      .set({ played: true, updatedAt: new Date() })
-      .where(eq(sets.id, setId))
-      .returning()
+    const { matchCompleted } = await playSetAndBroadcast(
+      io,
+      userData,
+      setId,
+      event,
+      version
+    )
+
+    console.log(
+      `User ${userData.id} marked set ${setId} as played. Match completed: ${matchCompleted}`
+    )
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[markSetPlayed] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
 
-    if (updatedSet.length === 0) {
-      socket.emit(SOCKET_EVENTS.ERROR, 'Failed to update set')
+export const correctSet = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: CorrectSetData
+): Promise<void> => {
+  try {
+    const { setId, registration1Score, registration2Score, reason } = data
+    const played = data.played ?? true
+
+    if (!setId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Set ID is required')
+      return
+    }
+
+    if (!reason || !reason.trim()) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.CORRECTION_REASON_REQUIRED)
       return
     }
 
-    const updated = updatedSet[0]
+    if (
+      !Number.isInteger(registration1Score) ||
+      !Number.isInteger(registration2Score) ||
+      registration1Score < 0 ||
+      registration2Score < 0
+    ) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_SCORE)
+      return
+    }
 
-    const allSets = await db
+    const setResults = await db
       .select()
       .from(sets)
-      .where(eq(sets.matchId, matchId))
-      .orderBy(asc(sets.setNumber))
+      .where(eq(sets.id, setId))
+      .limit(1)
 
-    const playedSets = allSets.filter((s) => s.played)
+    if (setResults.length === 0) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.SET_NOT_FOUND)
+      return
+    }
 
-    const majorityResult = checkMajorityAndGetWinner(
-      playedSets,
-      event.bestOf,
-      match
-    )
+    const setData = setResults[0]
+    const matchId = setData.matchId
 
-    let matchCompleted = false
-    let winnerId: string | null = null
+    // Unplayed sets are edited with update-set-score
+    if (!setData.played) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.SET_NOT_PLAYED)
+      return
+    }
 
-    if (majorityResult.completed && majorityResult.winnerId) {
-      matchCompleted = true
-      winnerId = majorityResult.winnerId
+    const match = await getMatchById(matchId)
 
-      await db
-        .update(matches)
-        .set({ played: true, winnerId, updatedAt: new Date() })
-        .where(eq(matches.id, matchId))
+    if (!match) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+      return
+    }
+
+    const eventResults = await db
+      .select()
+      .from(events)
+      .where(eq(events.id, match.eventId))
+      .limit(1)
+
+    if (eventResults.length === 0) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const event = eventResults[0]
+
+    const authCheck = await checkEventAdminAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
 
-      if (isGroupsFormat(event.format)) {
-        await handleGroupsMatchCompletion(
-          match,
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    if (played) {
+      const playedValidation = await validateSetPlayed(
+        setId,
+        registration1Score,
+        registration2Score
+      )
+
+      if (!playedValidation.valid) {
+        socket.emit(SOCKET_EVENTS.ERROR, playedValidation.error)
+        return
+      }
+    }
+
+    // The correction and any result cascade commit together or not at all
+    const correction = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(matchId, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      const allSets = await getSetsForMatch(matchId, tx)
+      const currentSet = allSets.find((s) => s.id === setId)
+
+      if (!currentSet || !currentSet.played) {
+        throw new Error(ERROR_MESSAGES.SET_NOT_PLAYED)
+      }
+
+      if (
+        !played &&
+        allSets.some(
+          (s) =>
+            s.rubberId === currentSet.rubberId &&
+            s.setNumber > currentSet.setNumber &&
+            s.played
+        )
+      ) {
+        throw new Error(ERROR_MESSAGES.LATER_SETS_PLAYED)
+      }
+
+      const previousPlayedSets = allSets.filter(countsTowardsResult)
+      const correctedPlayedSets = allSets
+        .map((s) =>
+          s.id === setId
+            ? { ...s, registration1Score, registration2Score, played }
+            : s
+        )
+        .filter(countsTowardsResult)
+
+      let previousResults: SetResult[] = previousPlayedSets
+      let correctedResults: SetResult[] = correctedPlayedSets
+      let bestOf = event.bestOf
+
+      // In a team tie the set can change its rubber's result, and the
+      // rubbers decide the match
+      if (currentSet.rubberId) {
+        const tieRubbers = await getRubbersForMatch(matchId, tx)
+        const rubber = tieRubbers.find((r) => r.id === currentSet.rubberId)
+
+        if (
+          !played &&
+          rubber &&
+          tieRubbers.some(
+            (r) =>
+              r.rubberNumber > rubber.rubberNumber &&
+              allSets.some((s) => s.rubberId === r.id)
+          )
+        ) {
+          throw new Error(ERROR_MESSAGES.LATER_SETS_PLAYED)
+        }
+
+        const rubberOutcome = checkMajorityAndGetWinner(
+          correctedPlayedSets.filter((s) => s.rubberId === currentSet.rubberId),
+          event.bestOf,
+          lockedMatch
+        )
+
+        previousResults = toRubberResults(tieRubbers, lockedMatch)
+        correctedResults = toRubberResults(
+          tieRubbers.map((r) =>
+            r.id === currentSet.rubberId
+              ? {
+                  played: rubberOutcome.completed,
+                  winnerId: rubberOutcome.completed
+                    ? rubberOutcome.winnerId
+                    : null,
+                }
+              : r
+          ),
+          lockedMatch
+        )
+        bestOf = tieRubbers.length
+      }
+
+      const majorityResult = checkMajorityAndGetWinner(
+        correctedResults,
+        bestOf,
+        lockedMatch
+      )
+
+      const previousWinnerId = lockedMatch.played ? lockedMatch.winnerId : null
+      const winnerId = majorityResult.completed ? majorityResult.winnerId : null
+      const winnerChanged = winnerId !== previousWinnerId
+
+      let revertedMatchIds: string[] = []
+      let routedMatchIds: string[] = []
+
+      if (lockedMatch.played && winnerChanged) {
+        const startedDownstream = await getStartedDownstreamMatches(
+          lockedMatch,
+          tx
+        )
+
+        if (startedDownstream.length > 0) {
+          throw new Error(ERROR_MESSAGES.DOWNSTREAM_MATCH_STARTED)
+        }
+
+        revertedMatchIds = await reverseMatchCompletion(
+          lockedMatch,
           event,
-          winnerId,
-          playedSets.map((s) => ({
-            registration1Score: s.registration1Score,
-            registration2Score: s.registration2Score,
-          }))
+          previousResults,
+          tx
         )
-      } else if (isSingleEliminationFormat(event.format)) {
-        await handleSingleEliminationMatchCompletion(match, winnerId)
-      } else if (isDoubleEliminationFormat(event.format)) {
-        await handleDoubleEliminationMatchCompletion(match, winnerId)
+      } else if (
+        lockedMatch.played &&
+        previousWinnerId &&
+        isGroupStageMatch(event.format, lockedMatch) &&
+        lockedMatch.registration1Id &&
+        lockedMatch.registration2Id
+      ) {
+        // Same winner: only the set counts in the standings change
+        const matchPoints = calculateMatchPoints(
+          previousWinnerId,
+          lockedMatch.registration1Id,
+          lockedMatch.registration2Id,
+          event.pointsPerWin,
+          event.pointsPerLoss
+        )
+
+        await updateRegistrationStandings(
+          lockedMatch.registration1Id,
+          lockedMatch.registration2Id,
+          matchPoints,
+          calculateSetPoints(previousResults),
+          -1,
+          tx
+        )
+        await updateRegistrationStandings(
+          lockedMatch.registration1Id,
+          lockedMatch.registration2Id,
+          matchPoints,
+          calculateSetPoints(correctedResults),
+          1,
+          tx
+        )
+
+        // The new set counts can reorder a completed group
+        if (lockedMatch.groupId && event.format === 'groups-knockout') {
+          routedMatchIds = await syncGroupQualification(
+            lockedMatch.groupId,
+            event,
+            tx
+          )
+        }
+      }
+
+      await reconcilePointLog(
+        setId,
+        lockedMatch,
+        { registration1Score, registration2Score },
+        userData.id,
+        tx
+      )
+
+      const updatedSet = await tx
+        .update(sets)
+        .set({
+          registration1Score,
+          registration2Score,
+          played,
+          version: nextVersion(sets.version),
+          updatedAt: new Date(),
+        })
+        .where(eq(sets.id, setId))
+        .returning()
+
+      if (currentSet.rubberId) {
+        await syncRubberResult(currentSet.rubberId, lockedMatch, event, tx)
       }
 
-      if (match.groupId) {
-        await updateGroupCompletionStatus(match.groupId)
+      if (winnerId && winnerChanged) {
+        const currentMatch = await lockMatch(matchId, tx)
+
+        if (currentMatch) {
+          routedMatchIds = await completeMatch(
+            currentMatch,
+            event,
+            winnerId,
+            correctedResults,
+            { status: 'completed', changedBy: userData.id, reason: reason.trim() },
+            tx
+          )
+        }
       }
 
-      await updateEventCompletedStatus(match.eventId)
+      await tx.insert(setCorrections).values({
+        setId,
+        matchId,
+        correctedBy: userData.id,
+        reason: reason.trim(),
+        previousRegistration1Score: currentSet.registration1Score,
+        previousRegistration2Score: currentSet.registration2Score,
+        previousPlayed: currentSet.played,
+        registration1Score: updatedSet[0].registration1Score,
+        registration2Score: updatedSet[0].registration2Score,
+        played: updatedSet[0].played,
+        previousWinnerId,
+        winnerId,
+      })
 
+      return {
+        updated: updatedSet[0],
+        previousWinnerId,
+        winnerId,
+        winnerChanged,
+        revertedMatchIds,
+        routedMatchIds,
+      }
+    })
+
+    const {
+      updated,
+      previousWinnerId,
+      winnerId,
+      winnerChanged,
+      revertedMatchIds,
+      routedMatchIds,
+    } = correction
+
+    // Undo would replay snapshots from before the correction
+    clearActionHistory(matchId)
+
+    if (revertedMatchIds.length > 0) {
+      broadcastMatchReverted(io, match, {
+        matchId,
+        previousWinnerId,
+        revertedMatchIds,
+      })
+    }
+
+    if (winnerId && winnerChanged) {
       const matchCompletedData: MatchCompletedData = { matchId, winnerId }
-      io.to(`match_${matchId}`).emit(
+      io.to(getMatchRooms(match)).emit(
         SOCKET_EVENTS.MATCH_COMPLETED,
         matchCompletedData
       )
     }
 
-    const setPlayedData: SetPlayedData = {
+    const setCorrectedData: SetCorrectedData = {
       matchId,
       set: {
         id: updated.id,
         matchId: updated.matchId,
+        rubberId: updated.rubberId,
         setNumber: updated.setNumber,
         registration1Score: updated.registration1Score,
         registration2Score: updated.registration2Score,
         played: updated.played,
+        resultType: updated.resultType,
+        version: updated.version,
         createdAt: updated.createdAt.toISOString(),
         updatedAt: updated.updatedAt.toISOString(),
       },
-      matchCompleted,
+      reason: reason.trim(),
+      correctedBy: userData.id,
+      previousWinnerId,
       winnerId,
+      matchCompleted: winnerId !== null,
     }
 
-    io.to(`match_${matchId}`).emit(SOCKET_EVENTS.SET_PLAYED, setPlayedData)
+    io.to(getMatchRooms(match)).emit(SOCKET_EVENTS.SET_CORRECTED, setCorrectedData)
+    await broadcastBracketUpdated(io, event, routedMatchIds)
+    await broadcastGroupStandings(io, event, match.groupId)
+    await broadcastGroupQualification(io, event, match.groupId)
+    await broadcastEventResults(io, event)
     console.log(
-      `User ${userData.id} marked set ${setId} as played. Match completed: ${matchCompleted}`
+      `User ${userData.id} corrected set ${setId} in match ${matchId}: ${reason.trim()}`
     )
   } catch (error) {
-    console.error('[markSetPlayed] Error:', error)
+    console.error('[correctSet] Error:', error)
     socket.emit(
       SOCKET_EVENTS.ERROR,
       error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,207 @@
+import { Server, Socket } from 'socket.io'
+import { eq } from 'drizzle-orm'
+import { db } from '../config/db.config'
+import { matches, sets } from '../db/schema'
+import { UserData } from '../middlewares/auth.middleware'
+import { checkEventUpdateAuthorization } from '../utils/authorization'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from '../config/constants'
+import { CreateTieData, TieCreatedData } from '../types/socket.types'
+import { getMatchById, getEventById } from '../services/match.service'
+import { getRegistrationPlayerLinks } from '../services/position-score.service'
+import { enrichRegistrationWithPlayers } from '../services/registration.service'
+import { createTieRubbers, toRubberData } from '../services/rubber.service'
+import { checkScorerClaim } from '../services/scorer-claim.service'
+import { emitVersionConflict, getMatchRooms } from './match.controller'
+import { isByeMatch } from '../utils/validation'
+import { getScoringRules } from '../utils/scoring-rules'
+import { lockMatch } from '../utils/match-completion'
+import {
+  nextVersion,
+  isValidVersion,
+  VersionConflictError,
+} from '../utils/versioning'
+
+type TieLineup = NonNullable<CreateTieData['lineup']>
+
+/**
+ * Pairs team members by their play order, cycling through the smaller team
+ * when it has fewer players than the tie has rubbers
+ */
+const buildDefaultLineup = (
+  team1PlayerIds: string[],
+  team2PlayerIds: string[],
+  rubbersPerTie: number
+): TieLineup => {
+  return Array.from({ length: rubbersPerTie }, (_, index) => ({
+    registration1PlayerId: team1PlayerIds[index % team1PlayerIds.length],
+    registration2PlayerId: team2PlayerIds[index % team2PlayerIds.length],
+  }))
+}
+
+export const createTie = async (
+  io: Server,
+  socket: Socket,
+  userData: UserData,
+  data: CreateTieData
+): Promise<void> => {
+  try {
+    const { matchId, lineup, version } = data
+
+    if (!matchId) {
+      socket.emit(SOCKET_EVENTS.ERROR, 'Match ID is required')
+      return
+    }
+
+    if (!isValidVersion(version)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.VERSION_REQUIRED)
+      return
+    }
+
+    if (lineup !== undefined && !Array.isArray(lineup)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.INVALID_TIE_LINEUP)
+      return
+    }
+
+    const match = await getMatchById(matchId)
+
+    if (!match) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_NOT_FOUND)
+      return
+    }
+
+    const event = await getEventById(match.eventId)
+
+    if (!event) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.EVENT_NOT_FOUND)
+      return
+    }
+
+    const { rubbersPerTie } = getScoringRules(event)
+
+    if (rubbersPerTie === null) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.TIES_NOT_SUPPORTED)
+      return
+    }
+
+    const authCheck = await checkEventUpdateAuthorization(userData, {
+      organizationId: event.organizationId,
+    })
+
+    if (!authCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, authCheck.error || 'Permission denied')
+      return
+    }
+
+    const claimCheck = checkScorerClaim(matchId, socket.id)
+
+    if (!claimCheck.authorized) {
+      socket.emit(SOCKET_EVENTS.ERROR, claimCheck.error)
+      return
+    }
+
+    if (isByeMatch(match)) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.TIE_NEEDS_BOTH_TEAMS)
+      return
+    }
+
+    if (match.played) {
+      socket.emit(SOCKET_EVENTS.ERROR, ERROR_MESSAGES.MATCH_ALREADY_PLAYED)
+      return
+    }
+
+    const registration1Id = match.registration1Id as string
+    const registration2Id = match.registration2Id as string
+
+    const { rubbers, matchVersion } = await db.transaction(async (tx) => {
+      const lockedMatch = await lockMatch(matchId, tx)
+
+      if (!lockedMatch) {
+        throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+      }
+
+      if (lockedMatch.version !== version) {
+        throw new VersionConflictError(
+          'match',
+          matchId,
+          matchId,
+          version,
+          lockedMatch.version
+        )
+      }
+
+      const existingSets = await tx
+        .select({ id: sets.id })
+        .from(sets)
+        .where(eq(sets.matchId, matchId))
+        .limit(1)
+
+      if (existingSets.length > 0) {
+        throw new Error(ERROR_MESSAGES.TIE_ALREADY_STARTED)
+      }
+
+      const team1PlayerIds = (
+        await getRegistrationPlayerLinks(registration1Id, tx)
+      ).map((link) => link.playerId)
+      const team2PlayerIds = (
+        await getRegistrationPlayerLinks(registration2Id, tx)
+      ).map((link) => link.playerId)
+
+      if (team1PlayerIds.length === 0 || team2PlayerIds.length === 0) {
+        throw new Error(ERROR_MESSAGES.TEAM_HAS_NO_PLAYERS)
+      }
+
+      const tieLineup =
+        lineup ?? buildDefaultLineup(team1PlayerIds, team2PlayerIds, rubbersPerTie)
+
+      if (
+        tieLineup.length !== rubbersPerTie ||
+        tieLineup.some(
+          (pairing) =>
+            !team1PlayerIds.includes(pairing?.registration1PlayerId) ||
+            !team2PlayerIds.includes(pairing?.registration2PlayerId)
+        )
+      ) {
+        throw new Error(ERROR_MESSAGES.INVALID_TIE_LINEUP)
+      }
+
+      const created = await createTieRubbers(matchId, tieLineup, tx)
+
+      const updatedMatch = await tx
+        .update(matches)
+        .set({
+          version: nextVersion(matches.version),
+          updatedAt: new Date(),
+        })
+        .where(eq(matches.id, matchId))
+        .returning({ version: matches.version })
+
+      return { rubbers: created, matchVersion: updatedMatch[0].version }
+    })
+
+    const registration1 = await enrichRegistrationWithPlayers(registration1Id)
+    const registration2 = await enrichRegistrationWithPlayers(registration2Id)
+
+    const tieCreatedData: TieCreatedData = {
+      matchId,
+      rubbers: rubbers.map((rubber) =>
+        toRubberData(rubber, registration1, registration2)
+      ),
+      matchVersion,
+    }
+
+    io.to(getMatchRooms(match)).emit(SOCKET_EVENTS.TIE_CREATED, tieCreatedData)
+    console.log(
+      `User ${userData.id} created a ${rubbers.length}-rubber tie for match ${matchId}`
+    )
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      await emitVersionConflict(socket, error)
+      return
+    }
+    console.error('[createTie] Error:', error)
+    socket.emit(
+      SOCKET_EVENTS.ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    )
+  }
+}
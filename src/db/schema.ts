@@ -296,11 +296,24 @@ export const events = pgTable(
     bestOf: integer('best_of').notNull(), // Must be odd: 1, 3, 5, 7, etc.
     pointsPerWin: integer('points_per_win').notNull().default(3),
     pointsPerLoss: integer('points_per_loss').notNull().default(0),
+    // Scoring rule overrides for this event: { pointsToWin?, winBy?, pointCap?, decidingSet?, walkover?, retirement?, rubbersPerTie? }
+    // Nullable: null means the defaults for the event type apply (see src/config/scoring-rules.ts)
+    scoringRules: jsonb('scoring_rules'),
     completed: boolean('completed').notNull().default(false),
     // For double-elimination: how many rounds before finals the losers bracket starts
     losersStartRoundsBeforeFinal: integer('losers_start_rounds_before_final'),
     // For test events: number of players per heat (default 8)
     playersPerHeat: integer('players_per_heat'),
+    // For groups-knockout events: how many of each group reach the knockout stage (default 2)
+    qualifiersPerGroup: integer('qualifiers_per_group'),
+    // Tiebreak chain for group tables, e.g. ['points', 'head-to-head', 'set-difference']
+    // Nullable: null means the default chain applies (see src/config/tiebreakers.ts)
+    tiebreakers: jsonb('tiebreakers'),
+    // Scheduling: estimated minutes per set and minimum rest for a player
+    // between two matches. Nullable: null means the defaults apply (see
+    // DEFAULT_SET_MINUTES / DEFAULT_MIN_REST_MINUTES in src/config/constants.ts)
+    setMinutes: integer('set_minutes'),
+    minRestMinutes: integer('min_rest_minutes'),
     championshipEditionId: uuid('championship_edition_id').references(
       () => championshipEditions.id,
       {
@@ -338,6 +351,18 @@ export const events = pgTable(
       'chk_players_per_heat_min',
       sql`${table.playersPerHeat} IS NULL OR ${table.playersPerHeat} >= 2`
     ),
+    check(
+      'chk_set_minutes_positive',
+      sql`${table.setMinutes} IS NULL OR ${table.setMinutes} > 0`
+    ),
+    check(
+      'chk_min_rest_minutes_non_negative',
+      sql`${table.minRestMinutes} IS NULL OR ${table.minRestMinutes} >= 0`
+    ),
+    check(
+      'chk_qualifiers_per_group_positive',
+      sql`${table.qualifiersPerGroup} IS NULL OR ${table.qualifiersPerGroup} > 0`
+    ),
     // Indexes for frequently queried columns
     index('idx_events_organization_id').on(table.organizationId),
     index('idx_events_event_type').on(table.eventType),
@@ -421,6 +446,27 @@ export const registrationPlayers = pgTable(
   ]
 )
 
+// Courts Table
+// Courts an event is played on, per event day; matches are queued on them
+// (matches.court_id / matches.court_order)
+export const courts = pgTable(
+  'courts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    eventId: uuid('event_id')
+      .notNull()
+      .references(() => events.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    date: date('date').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('unique_event_court_day').on(table.eventId, table.date, table.name),
+    index('idx_courts_event_id').on(table.eventId),
+  ]
+)
+
 // Matches Table
 export const matches = pgTable(
   'matches',
@@ -459,6 +505,38 @@ export const matches = pgTable(
     loserTo: uuid('loser_to'), // Self-reference for loser routing (double elimination)
     loserToSlot: integer('loser_to_slot'),
     bracketType: text('bracket_type', { enum: ['winners', 'losers'] }),
+    // Knockout stage of groups-knockout: the group placing each slot is
+    // filled from, e.g. 'A1' (winner of group A) or 'B2' (runner-up of group B)
+    // Null on every match: the default cross-over (A1 vs B2, B1 vs A2, ...) applies
+    registration1Source: varchar('registration1_source', { length: 10 }),
+    registration2Source: varchar('registration2_source', { length: 10 }),
+    // Lifecycle state; legal transitions are defined in src/utils/match-status.ts
+    status: text('status', {
+      enum: [
+        'scheduled',
+        'called',
+        'warm-up',
+        'in-progress',
+        'paused',
+        'completed',
+        'walkover',
+        'retired',
+        'cancelled',
+      ],
+    })
+      .notNull()
+      .default('scheduled'),
+    statusChangedAt: timestamp('status_changed_at'),
+    // Order of play: the court the match is queued on and its place in the
+    // court's queue (1 = first). Null while the match has no court
+    courtId: uuid('court_id').references(() => courts.id, {
+      onDelete: 'set null',
+    }),
+    courtOrder: integer('court_order'),
+    // Planned start time; match_date is kept on the same day. Null while unscheduled
+    scheduledAt: timestamp('scheduled_at'),
+    // Optimistic concurrency: incremented on every update
+    version: integer('version').notNull().default(1),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
@@ -485,6 +563,43 @@ export const matches = pgTable(
     index('idx_matches_registration1_id').on(table.registration1Id),
     index('idx_matches_registration2_id').on(table.registration2Id),
     index('idx_matches_event_round').on(table.eventId, table.round),
+    index('idx_matches_court_id').on(table.courtId, table.courtOrder),
+    index('idx_matches_match_date_scheduled_at').on(
+      table.matchDate,
+      table.scheduledAt
+    ),
+  ]
+)
+
+// Rubbers Table
+// A team tie (singles-teams, solo-teams) is one match made of ordered
+// player-vs-player rubbers; each rubber is scored with its own sets
+export const rubbers = pgTable(
+  'rubbers',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    matchId: uuid('match_id')
+      .notNull()
+      .references(() => matches.id, { onDelete: 'cascade' }),
+    rubberNumber: integer('rubber_number').notNull(),
+    registration1PlayerId: uuid('registration1_player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    registration2PlayerId: uuid('registration2_player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    played: boolean('played').notNull().default(false),
+    // Registration (team) that won the rubber
+    winnerId: uuid('winner_id').references(() => registrations.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('unique_match_rubber_number').on(table.matchId, table.rubberNumber),
+    check('chk_rubber_number_positive', sql`${table.rubberNumber} > 0`),
+    index('idx_rubbers_match_id').on(table.matchId),
   ]
 )
 
@@ -496,16 +611,30 @@ export const sets = pgTable(
     matchId: uuid('match_id')
       .notNull()
       .references(() => matches.id, { onDelete: 'cascade' }),
+    // Set of a team tie rubber; null for regular matches
+    rubberId: uuid('rubber_id').references(() => rubbers.id, {
+      onDelete: 'cascade',
+    }),
     setNumber: integer('set_number').notNull(),
     registration1Score: integer('registration1_score').notNull(),
     registration2Score: integer('registration2_score').notNull(),
     played: boolean('played').notNull().default(false), // Sequential validation required
+    // 'awarded': created by a walkover/retirement rule, never played
+    // 'retired': was in progress when a side retired, closed with its score;
+    // left out of set and point totals
+    resultType: text('result_type', { enum: ['played', 'awarded', 'retired'] })
+      .notNull()
+      .default('played'),
+    // Optimistic concurrency: incremented on every update
+    version: integer('version').notNull().default(1),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
   (table) => [
-    // Unique constraint: one set number per match
-    unique('unique_match_set_number').on(table.matchId, table.setNumber),
+    // Unique constraint: one set number per match (per rubber in a team tie)
+    unique('unique_match_set_number')
+      .on(table.matchId, table.rubberId, table.setNumber)
+      .nullsNotDistinct(),
     // Constraints: scores must be non-negative, set number must be positive
     check('chk_set_number_positive', sql`${table.setNumber} > 0`),
     check('chk_reg1_score_non_negative', sql`${table.registration1Score} >= 0`),
@@ -513,6 +642,233 @@ export const sets = pgTable(
     // Indexes for performance
     index('idx_sets_match_id').on(table.matchId),
     index('idx_sets_match_set_number').on(table.matchId, table.setNumber),
+    index('idx_sets_rubber_id').on(table.rubberId),
+  ]
+)
+
+// Set Points Table (rally log)
+// Every rally scored point by point is recorded here, and the set's score is
+// what its rallies add up to. Scores entered as absolute values append or
+// remove rallies so the log still adds up
+export const setPoints = pgTable(
+  'set_points',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    setId: uuid('set_id')
+      .notNull()
+      .references(() => sets.id, { onDelete: 'cascade' }),
+    matchId: uuid('match_id')
+      .notNull()
+      .references(() => matches.id, { onDelete: 'cascade' }),
+    // Side that won the rally: 1 = registration1, 2 = registration2
+    side: integer('side').notNull(),
+    registrationId: uuid('registration_id').references(
+      () => registrations.id,
+      {
+        onDelete: 'set null',
+      }
+    ),
+    // Rally number within the set (1, 2, 3...)
+    sequence: integer('sequence').notNull(),
+    recordedBy: uuid('recorded_by').references(() => user.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    // One rally per sequence number per set (guards concurrent scorers)
+    unique('unique_set_point_sequence').on(table.setId, table.sequence),
+    check('chk_point_side_valid', sql`${table.side} IN (1, 2)`),
+    check('chk_point_sequence_positive', sql`${table.sequence} > 0`),
+    index('idx_set_points_set_id').on(table.setId),
+    index('idx_set_points_match_id').on(table.matchId),
+  ]
+)
+
+// Set Corrections Table
+// Audit trail of amendments made to sets after they were marked as played
+export const setCorrections = pgTable(
+  'set_corrections',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    setId: uuid('set_id')
+      .notNull()
+      .references(() => sets.id, { onDelete: 'cascade' }),
+    matchId: uuid('match_id')
+      .notNull()
+      .references(() => matches.id, { onDelete: 'cascade' }),
+    correctedBy: uuid('corrected_by').references(() => user.id, {
+      onDelete: 'set null',
+    }),
+    reason: text('reason').notNull(),
+    previousRegistration1Score: integer(
+      'previous_registration1_score'
+    ).notNull(),
+    previousRegistration2Score: integer(
+      'previous_registration2_score'
+    ).notNull(),
+    previousPlayed: boolean('previous_played').notNull(),
+    registration1Score: integer('registration1_score').notNull(),
+    registration2Score: integer('registration2_score').notNull(),
+    played: boolean('played').notNull(),
+    previousWinnerId: uuid('previous_winner_id').references(
+      () => registrations.id,
+      { onDelete: 'set null' }
+    ),
+    winnerId: uuid('winner_id').references(() => registrations.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('idx_set_corrections_set_id').on(table.setId),
+    index('idx_set_corrections_match_id').on(table.matchId),
+  ]
+)
+
+// Match Status History Table
+// One row per lifecycle transition of a match
+export const matchStatusHistory = pgTable(
+  'match_status_history',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    matchId: uuid('match_id')
+      .notNull()
+      .references(() => matches.id, { onDelete: 'cascade' }),
+    fromStatus: text('from_status').notNull(),
+    toStatus: text('to_status').notNull(),
+    // Null when the transition followed from scoring (e.g. the deciding set)
+    changedBy: uuid('changed_by').references(() => user.id, {
+      onDelete: 'set null',
+    }),
+    reason: text('reason'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('idx_match_status_history_match_id').on(table.matchId),
+  ]
+)
+
+// Heats Table
+// Tests-format events are played in heats of up to events.playersPerHeat
+// registrations instead of head-to-head matches
+export const heats = pgTable(
+  'heats',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    eventId: uuid('event_id')
+      .notNull()
+      .references(() => events.id, { onDelete: 'cascade' }),
+    heatNumber: integer('heat_number').notNull(),
+    // Legal transitions are defined in src/utils/heats.ts
+    status: text('status', { enum: ['pending', 'in-progress', 'finished'] })
+      .notNull()
+      .default('pending'),
+    startedAt: timestamp('started_at'),
+    finishedAt: timestamp('finished_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('unique_event_heat_number').on(table.eventId, table.heatNumber),
+    check('chk_heat_number_positive', sql`${table.heatNumber} > 0`),
+    index('idx_heats_event_id').on(table.eventId),
+  ]
+)
+
+// Heat Entries Table
+// One row per registration in a heat; a registration is in at most one heat
+export const heatEntries = pgTable(
+  'heat_entries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    heatId: uuid('heat_id')
+      .notNull()
+      .references(() => heats.id, { onDelete: 'cascade' }),
+    registrationId: uuid('registration_id')
+      .notNull()
+      .references(() => registrations.id, { onDelete: 'cascade' }),
+    // Order within the heat (1, 2, 3...)
+    lane: integer('lane').notNull(),
+    // Null until the result is entered
+    score: integer('score'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('unique_heat_entry_registration').on(table.registrationId),
+    check('chk_heat_lane_positive', sql`${table.lane} > 0`),
+    check(
+      'chk_heat_score_non_negative',
+      sql`${table.score} IS NULL OR ${table.score} >= 0`
+    ),
+    index('idx_heat_entries_heat_id').on(table.heatId),
+  ]
+)
+
+// Relay Legs Table
+// Relay events are run leg by leg: leg N of a team is run by its player with
+// registration_players.order N, and legs are recorded in that order
+export const relayLegs = pgTable(
+  'relay_legs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    registrationId: uuid('registration_id')
+      .notNull()
+      .references(() => registrations.id, { onDelete: 'cascade' }),
+    playerId: uuid('player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    legNumber: integer('leg_number').notNull(),
+    score: integer('score').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('unique_registration_relay_leg').on(
+      table.registrationId,
+      table.legNumber
+    ),
+    check('chk_relay_leg_number_positive', sql`${table.legNumber} > 0`),
+    check('chk_relay_leg_score_non_negative', sql`${table.score} >= 0`),
+    index('idx_relay_legs_registration_id').on(table.registrationId),
+  ]
+)
+
+// Event Results Table
+// Placement of each player of a completed event and the ranking points the
+// event's points schema awards for it (see src/config/placements.ts).
+// Rebuilt whenever the outcome of the event changes, removed when it is reopened
+export const eventResults = pgTable(
+  'event_results',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    eventId: uuid('event_id')
+      .notNull()
+      .references(() => events.id, { onDelete: 'cascade' }),
+    registrationId: uuid('registration_id')
+      .notNull()
+      .references(() => registrations.id, { onDelete: 'cascade' }),
+    playerId: uuid('player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    placement: varchar('placement', { length: 50 }).notNull(),
+    // Null when no placement tier of that name exists
+    placementTierId: uuid('placement_tier_id').references(
+      () => placementTiers.id,
+      { onDelete: 'set null' }
+    ),
+    points: integer('points').notNull().default(0),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('unique_event_result_player').on(
+      table.eventId,
+      table.registrationId,
+      table.playerId
+    ),
+    index('idx_event_results_event_id').on(table.eventId),
+    index('idx_event_results_player_id').on(table.playerId),
   ]
 )
 
@@ -728,7 +1084,16 @@ export type Group = typeof groups.$inferSelect
 export type Registration = typeof registrations.$inferSelect
 export type RegistrationPlayer = typeof registrationPlayers.$inferSelect
 export type Match = typeof matches.$inferSelect
+export type Court = typeof courts.$inferSelect
 export type Set = typeof sets.$inferSelect
+export type Rubber = typeof rubbers.$inferSelect
+export type SetPoint = typeof setPoints.$inferSelect
+export type SetCorrection = typeof setCorrections.$inferSelect
+export type MatchStatusHistory = typeof matchStatusHistory.$inferSelect
+export type Heat = typeof heats.$inferSelect
+export type HeatEntry = typeof heatEntries.$inferSelect
+export type RelayLeg = typeof relayLegs.$inferSelect
+export type EventResult = typeof eventResults.$inferSelect
 export type Coach = typeof coaches.$inferSelect
 export type TrainingSession = typeof trainingSessions.$inferSelect
 export type TrainingSessionCoach = typeof trainingSessionCoaches.$inferSelect
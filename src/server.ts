@@ -5,18 +5,68 @@ import cors from 'cors'
 import helmet from 'helmet'
 import { Server } from 'socket.io'
 import { socketConfig } from './config/socket.config'
-import { SOCKET_EVENTS } from './config/constants'
+import { SOCKET_EVENTS, ERROR_MESSAGES } from './config/constants'
 import {
   handleConnection,
   handleDisconnect,
   joinMatch,
   leaveMatch,
+  joinEvent,
+  leaveEvent,
+  joinGroup,
+  leaveGroup,
+  joinHeat,
+  leaveHeat,
   getMatch,
   updateMatch,
+  changeMatchStatus,
+  recordWalkover,
+  recordRetirement,
   createSet,
   updateSetScore,
   markSetPlayed,
+  correctSet,
+  scorePoint,
+  removePoint,
+  undoAction,
+  redoAction,
+  claimScoring,
+  releaseScoring,
+  getPositionScores,
+  assignPositions,
+  updatePositionScore,
+  getHeat,
+  getLeaderboard,
+  generateHeats,
+  assignHeat,
+  updateHeatStatus,
+  recordHeatResult,
+  createTie,
+  getRelay,
+  recordRelayLeg,
+  getStandings,
+  getBracket,
+  resolveByes,
+  sweepPendingByes,
+  getResults,
+  getRanking,
+  joinFederation,
+  leaveFederation,
+  joinCourt,
+  leaveCourt,
+  getCourts,
+  createCourt,
+  deleteCourt,
+  assignCourt,
+  reorderCourt,
+  callMatch,
+  nextMatch,
+  scheduleMatch,
+  getSchedule,
+  startScheduleMonitor,
 } from './controllers'
+import { getFederationById, getFederationRanking } from './services'
+import { resolveBestResults } from './utils/ranking'
 
 // Initialize Express app
 const app = express()
@@ -39,6 +89,43 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
+// Federation ranking, public like the socket query
+app.get('/federations/:federationId/ranking', async (req, res) => {
+  try {
+    const { federationId } = req.params
+    const { eventType, gender, ageGroup } = req.query
+
+    const bestResults = resolveBestResults(req.query.bestResults)
+    if (bestResults === null) {
+      res.status(400).json({ error: ERROR_MESSAGES.INVALID_BEST_RESULTS })
+      return
+    }
+
+    const federation = await getFederationById(federationId)
+    if (!federation) {
+      res.status(404).json({ error: ERROR_MESSAGES.FEDERATION_NOT_FOUND })
+      return
+    }
+
+    res.json(
+      await getFederationRanking(
+        federationId,
+        {
+          eventType: typeof eventType === 'string' ? eventType : undefined,
+          gender: typeof gender === 'string' ? gender : undefined,
+          ageGroup: typeof ageGroup === 'string' ? ageGroup : undefined,
+        },
+        bestResults
+      )
+    )
+  } catch (error) {
+    console.error('[GET /federations/:federationId/ranking] Error:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+})
+
 // Socket connection handler
 io.on('connection', async (socket) => {
   const connectionResult = await handleConnection(io, socket)
@@ -52,15 +139,87 @@ io.on('connection', async (socket) => {
   // Room events
   socket.on(SOCKET_EVENTS.JOIN_MATCH, (data) => joinMatch(socket, userData, data))
   socket.on(SOCKET_EVENTS.LEAVE_MATCH, (data) => leaveMatch(socket, userData, data))
+  socket.on(SOCKET_EVENTS.JOIN_EVENT, (data) => joinEvent(socket, userData, data))
+  socket.on(SOCKET_EVENTS.LEAVE_EVENT, (data) => leaveEvent(socket, userData, data))
+  socket.on(SOCKET_EVENTS.JOIN_GROUP, (data) => joinGroup(socket, userData, data))
+  socket.on(SOCKET_EVENTS.LEAVE_GROUP, (data) => leaveGroup(socket, userData, data))
+  socket.on(SOCKET_EVENTS.JOIN_HEAT, (data) => joinHeat(socket, userData, data))
+  socket.on(SOCKET_EVENTS.LEAVE_HEAT, (data) => leaveHeat(socket, userData, data))
+  socket.on(SOCKET_EVENTS.JOIN_COURT, (data) => joinCourt(socket, userData, data))
+  socket.on(SOCKET_EVENTS.LEAVE_COURT, (data) => leaveCourt(socket, userData, data))
 
   // Match events
   socket.on(SOCKET_EVENTS.GET_MATCH, (data) => getMatch(socket, userData, data))
   socket.on(SOCKET_EVENTS.UPDATE_MATCH, (data) => updateMatch(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.CHANGE_MATCH_STATUS, (data) => changeMatchStatus(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.RECORD_WALKOVER, (data) => recordWalkover(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.RECORD_RETIREMENT, (data) => recordRetirement(io, socket, userData, data))
 
   // Set events
   socket.on(SOCKET_EVENTS.CREATE_SET, (data) => createSet(io, socket, userData, data))
   socket.on(SOCKET_EVENTS.UPDATE_SET_SCORE, (data) => updateSetScore(io, socket, userData, data))
   socket.on(SOCKET_EVENTS.MARK_SET_PLAYED, (data) => markSetPlayed(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.CORRECT_SET, (data) => correctSet(io, socket, userData, data))
+
+  // Court events (order of play)
+  socket.on(SOCKET_EVENTS.GET_COURTS, (data) => getCourts(socket, userData, data))
+  socket.on(SOCKET_EVENTS.CREATE_COURT, (data) => createCourt(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.DELETE_COURT, (data) => deleteCourt(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.ASSIGN_COURT, (data) => assignCourt(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.REORDER_COURT, (data) => reorderCourt(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.CALL_MATCH, (data) => callMatch(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.NEXT_MATCH, (data) => nextMatch(io, socket, userData, data))
+
+  // Schedule events (start times)
+  socket.on(SOCKET_EVENTS.GET_SCHEDULE, (data) => getSchedule(socket, userData, data))
+  socket.on(SOCKET_EVENTS.SCHEDULE_MATCH, (data) => scheduleMatch(io, socket, userData, data))
+
+  // Bracket events
+  socket.on(SOCKET_EVENTS.GET_BRACKET, (data) => getBracket(socket, userData, data))
+  socket.on(SOCKET_EVENTS.RESOLVE_BYES, (data) => resolveByes(io, socket, userData, data))
+
+  // Group events
+  socket.on(SOCKET_EVENTS.GET_STANDINGS, (data) => getStandings(socket, userData, data))
+
+  // Event results
+  socket.on(SOCKET_EVENTS.GET_EVENT_RESULTS, (data) => getResults(socket, userData, data))
+
+  // Federation ranking
+  socket.on(SOCKET_EVENTS.GET_RANKING, (data) => getRanking(socket, userData, data))
+  socket.on(SOCKET_EVENTS.JOIN_FEDERATION, (data) => joinFederation(socket, userData, data))
+  socket.on(SOCKET_EVENTS.LEAVE_FEDERATION, (data) => leaveFederation(socket, userData, data))
+
+  // Tie events (team events)
+  socket.on(SOCKET_EVENTS.CREATE_TIE, (data) => createTie(io, socket, userData, data))
+
+  // Point events
+  socket.on(SOCKET_EVENTS.SCORE_POINT, (data) => scorePoint(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.REMOVE_POINT, (data) => removePoint(io, socket, userData, data))
+
+  // History events
+  socket.on(SOCKET_EVENTS.UNDO_ACTION, (data) => undoAction(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.REDO_ACTION, (data) => redoAction(io, socket, userData, data))
+
+  // Scorer events
+  socket.on(SOCKET_EVENTS.CLAIM_SCORING, (data) => claimScoring(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.RELEASE_SCORING, (data) => releaseScoring(io, socket, userData, data))
+
+  // Position scoring events
+  socket.on(SOCKET_EVENTS.GET_POSITION_SCORES, (data) => getPositionScores(socket, userData, data))
+  socket.on(SOCKET_EVENTS.ASSIGN_POSITIONS, (data) => assignPositions(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.UPDATE_POSITION_SCORE, (data) => updatePositionScore(io, socket, userData, data))
+
+  // Heat events (tests format)
+  socket.on(SOCKET_EVENTS.GET_HEAT, (data) => getHeat(socket, userData, data))
+  socket.on(SOCKET_EVENTS.GET_LEADERBOARD, (data) => getLeaderboard(socket, userData, data))
+  socket.on(SOCKET_EVENTS.GENERATE_HEATS, (data) => generateHeats(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.ASSIGN_HEAT, (data) => assignHeat(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.UPDATE_HEAT_STATUS, (data) => updateHeatStatus(io, socket, userData, data))
+  socket.on(SOCKET_EVENTS.RECORD_HEAT_RESULT, (data) => recordHeatResult(io, socket, userData, data))
+
+  // Relay events
+  socket.on(SOCKET_EVENTS.GET_RELAY, (data) => getRelay(socket, userData, data))
+  socket.on(SOCKET_EVENTS.RECORD_RELAY_LEG, (data) => recordRelayLeg(io, socket, userData, data))
 
   // Disconnect
   socket.on('disconnect', () => handleDisconnect(io, socket))
@@ -79,6 +238,12 @@ const PORT = process.env.PORT || 3001
 
 server.listen(PORT, () => {
   console.log(`Socket server running on port ${PORT}`)
+
+  // Complete BYEs left pending by brackets scored before auto-advancement
+  sweepPendingByes(io)
+
+  // Broadcast delays of matches running late
+  startScheduleMonitor(io)
 })
 
 // Graceful shutdown
@@ -0,0 +1,159 @@
+import { ACTION_HISTORY_LIMIT } from '../config/constants'
+import {
+  ScoringActionType,
+  ScoringActionSummary,
+} from '../types/socket.types'
+
+export interface SetScoreSnapshot {
+  registration1Score: number
+  registration2Score: number
+  played: boolean
+}
+
+interface BaseScoringAction {
+  type: ScoringActionType
+  matchId: string
+  setId: string
+  // Version the set is at while the action is on top of its stack; undo and
+  // redo refuse to apply over a set that has changed since
+  setVersion: number
+  userId: string
+  createdAt: Date
+}
+
+export interface SetScoreAction extends BaseScoringAction {
+  type: 'set-score'
+  before: SetScoreSnapshot
+  after: SetScoreSnapshot
+}
+
+export interface SetPlayedAction extends BaseScoringAction {
+  type: 'set-played'
+}
+
+export interface SetCreatedAction extends BaseScoringAction {
+  type: 'set-created'
+  setNumber: number
+  rubberId: string | null
+}
+
+export type ScoringAction = SetScoreAction | SetPlayedAction | SetCreatedAction
+
+interface MatchActionHistory {
+  undo: ScoringAction[]
+  redo: ScoringAction[]
+}
+
+// Per-match scoring history, kept in memory until the match is corrected or
+// reopened
+const matchHistories = new Map<string, MatchActionHistory>()
+
+const getHistory = (matchId: string): MatchActionHistory => {
+  let history = matchHistories.get(matchId)
+  if (!history) {
+    history = { undo: [], redo: [] }
+    matchHistories.set(matchId, history)
+  }
+  return history
+}
+
+/**
+ * Records a new scoring action. A new action invalidates the redo stack.
+ */
+export const recordAction = (action: ScoringAction): void => {
+  const history = getHistory(action.matchId)
+  history.undo.push(action)
+  history.redo = []
+
+  if (history.undo.length > ACTION_HISTORY_LIMIT) {
+    history.undo.shift()
+  }
+}
+
+export const peekUndoAction = (matchId: string): ScoringAction | null => {
+  const history = matchHistories.get(matchId)
+  return history?.undo[history.undo.length - 1] ?? null
+}
+
+export const peekRedoAction = (matchId: string): ScoringAction | null => {
+  const history = matchHistories.get(matchId)
+  return history?.redo[history.redo.length - 1] ?? null
+}
+
+/**
+ * Moves the latest action from the undo stack to the redo stack
+ * Call once the action has been successfully reverted
+ */
+export const commitUndo = (matchId: string): void => {
+  const history = getHistory(matchId)
+  const action = history.undo.pop()
+  if (action) history.redo.push(action)
+}
+
+/**
+ * Moves the latest action from the redo stack back to the undo stack
+ * Call once the action has been successfully re-applied
+ */
+export const commitRedo = (matchId: string): void => {
+  const history = getHistory(matchId)
+  const action = history.redo.pop()
+  if (action) history.undo.push(action)
+}
+
+/**
+ * Re-creating a set gives it a new ID; point remaining history entries at it
+ */
+export const replaceSetIdInHistory = (
+  matchId: string,
+  previousSetId: string,
+  newSetId: string
+): void => {
+  const history = matchHistories.get(matchId)
+  if (!history) return
+
+  for (const action of [...history.undo, ...history.redo]) {
+    if (action.setId === previousSetId) {
+      action.setId = newSetId
+    }
+  }
+}
+
+/**
+ * Undoing or redoing an action changes its set's version; every action left
+ * on the set is now checked against the new version
+ */
+export const updateSetVersionInHistory = (
+  matchId: string,
+  setId: string,
+  setVersion: number
+): void => {
+  const history = matchHistories.get(matchId)
+  if (!history) return
+
+  for (const action of [...history.undo, ...history.redo]) {
+    if (action.setId === setId) {
+      action.setVersion = setVersion
+    }
+  }
+}
+
+export const canUndo = (matchId: string): boolean => {
+  return (matchHistories.get(matchId)?.undo.length ?? 0) > 0
+}
+
+export const canRedo = (matchId: string): boolean => {
+  return (matchHistories.get(matchId)?.redo.length ?? 0) > 0
+}
+
+export const clearActionHistory = (matchId: string): void => {
+  matchHistories.delete(matchId)
+}
+
+export const toActionSummary = (
+  action: ScoringAction
+): ScoringActionSummary => ({
+  type: action.type,
+  setId: action.setId,
+  userId: action.userId,
+  createdAt: action.createdAt.toISOString(),
+})
@@ -0,0 +1,146 @@
+import { eq, and, asc, isNull } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { matches, Event, Match } from '../db/schema'
+import {
+  BracketData,
+  BracketNodeData,
+  BracketRoundData,
+} from '../types/socket.types'
+import { getBracketLayout } from '../utils/bracket'
+import { enrichRegistrationWithPlayers } from './registration.service'
+
+const getBracketMatches = async (
+  eventId: string,
+  tx: DbExecutor
+): Promise<Match[]> => {
+  return tx
+    .select()
+    .from(matches)
+    .where(and(eq(matches.eventId, eventId), isNull(matches.groupId)))
+    .orderBy(
+      asc(matches.round),
+      asc(matches.bracketPosition),
+      asc(matches.matchNumber)
+    )
+}
+
+const toBracketNode = async (
+  match: Match,
+  roundLabel: string,
+  bracketMatches: Match[]
+): Promise<BracketNodeData> => {
+  const feeders = bracketMatches.flatMap((m) => [
+    ...(m.winnerTo === match.id
+      ? [{ matchId: m.id, outcome: 'winner' as const, slot: m.winnerToSlot }]
+      : []),
+    ...(m.loserTo === match.id
+      ? [{ matchId: m.id, outcome: 'loser' as const, slot: m.loserToSlot }]
+      : []),
+  ])
+
+  return {
+    matchId: match.id,
+    round: match.round,
+    roundLabel,
+    bracketType: match.bracketType,
+    bracketPosition: match.bracketPosition,
+    matchNumber: match.matchNumber,
+    registration1: match.registration1Id
+      ? await enrichRegistrationWithPlayers(match.registration1Id)
+      : null,
+    registration2: match.registration2Id
+      ? await enrichRegistrationWithPlayers(match.registration2Id)
+      : null,
+    registration1Source: match.registration1Source,
+    registration2Source: match.registration2Source,
+    winnerId: match.winnerId,
+    played: match.played,
+    status: match.status,
+    winnerTo: match.winnerTo,
+    winnerToSlot: match.winnerToSlot,
+    loserTo: match.loserTo,
+    loserToSlot: match.loserToSlot,
+    feeders,
+    version: match.version,
+  }
+}
+
+/**
+ * The bracket of an event (every match without a group) grouped into
+ * labelled rounds: winners bracket first, then losers bracket, then the
+ * third-place match, the final and its reset. Matches link to each other through
+ * winnerTo / loserTo and their feeders
+ */
+export const getEventBracket = async (
+  event: Pick<Event, 'id' | 'format'>,
+  tx: DbExecutor = db
+): Promise<BracketData> => {
+  const bracketMatches = await getBracketMatches(event.id, tx)
+  const layout = getBracketLayout(bracketMatches, event.format)
+
+  const rounds: BracketRoundData[] = []
+
+  for (const match of bracketMatches) {
+    const label = layout.labels.get(match.id) ?? `Round ${match.round}`
+    const node = await toBracketNode(match, label, bracketMatches)
+
+    const round = rounds.find((r) => r.label === label)
+    if (round) {
+      round.matches.push(node)
+    } else {
+      rounds.push({
+        label,
+        round: match.round,
+        bracketType: match.bracketType,
+        matches: [node],
+      })
+    }
+  }
+
+  const sectionOrder = (round: BracketRoundData): number => {
+    const roundMatchIds = round.matches.map((m) => m.matchId)
+
+    if (roundMatchIds.includes(layout.resetMatchId ?? '')) return 4
+    if (roundMatchIds.includes(layout.finalMatchId ?? '')) return 3
+    if (roundMatchIds.includes(layout.thirdPlaceMatchId ?? '')) return 2
+    return round.bracketType === 'losers' ? 1 : 0
+  }
+
+  rounds.sort((a, b) => sectionOrder(a) - sectionOrder(b) || a.round - b.round)
+
+  return {
+    eventId: event.id,
+    format: event.format,
+    finalMatchId: layout.finalMatchId,
+    resetMatchId: layout.resetMatchId,
+    thirdPlaceMatchId: layout.thirdPlaceMatchId,
+    rounds,
+  }
+}
+
+/**
+ * Bracket nodes of the given matches, labelled against the whole bracket
+ */
+export const getBracketNodes = async (
+  event: Pick<Event, 'id' | 'format'>,
+  matchIds: string[],
+  tx: DbExecutor = db
+): Promise<BracketNodeData[]> => {
+  const bracketMatches = await getBracketMatches(event.id, tx)
+  const layout = getBracketLayout(bracketMatches, event.format)
+
+  const nodes: BracketNodeData[] = []
+  for (const match of bracketMatches) {
+    if (!matchIds.includes(match.id)) continue
+
+    nodes.push(
+      await toBracketNode(
+        match,
+        layout.labels.get(match.id) ?? `Round ${match.round}`,
+        bracketMatches
+      )
+    )
+  }
+
+  return nodes
+}
@@ -0,0 +1,222 @@
+import { eq, and, asc } from 'drizzle-orm'
+import { db, DbExecutor, DbTransaction } from '../config/db.config'
+import { ERROR_MESSAGES } from '../config/constants'
+import { courts, matches, Court, Event, Match } from '../db/schema'
+import { CourtData } from '../types/socket.types'
+import { ON_COURT_STATUSES } from '../utils/match-status'
+import { enrichMatch } from './match-enrichment.service'
+
+export const getCourtById = async (courtId: string) => {
+  const results = await db.select().from(courts).where(eq(courts.id, courtId)).limit(1)
+  return results.length > 0 ? results[0] : null
+}
+
+export const getCourtsForEvent = async (
+  eventId: string,
+  date: string | null = null,
+  tx: DbExecutor = db
+) => {
+  return tx
+    .select()
+    .from(courts)
+    .where(
+      date
+        ? and(eq(courts.eventId, eventId), eq(courts.date, date))
+        : eq(courts.eventId, eventId)
+    )
+    .orderBy(asc(courts.date), asc(courts.name))
+}
+
+/**
+ * Every match assigned to a court, in order of play
+ */
+export const getCourtMatches = async (
+  courtId: string,
+  tx: DbExecutor = db
+): Promise<Match[]> => {
+  return tx
+    .select()
+    .from(matches)
+    .where(eq(matches.courtId, courtId))
+    .orderBy(asc(matches.courtOrder), asc(matches.matchNumber))
+}
+
+/**
+ * Locks a court row until the surrounding transaction ends and returns it
+ * Queue changes and calls on the same court serialize on this lock
+ */
+export const lockCourt = async (
+  courtId: string,
+  tx: DbTransaction
+): Promise<Court | null> => {
+  const result = await tx
+    .select()
+    .from(courts)
+    .where(eq(courts.id, courtId))
+    .for('update')
+
+  return result.length > 0 ? result[0] : null
+}
+
+// The match occupying the court, if any
+export const getMatchOnCourt = (courtMatches: Match[]): Match | undefined => {
+  return courtMatches.find((m) => ON_COURT_STATUSES.includes(m.status))
+}
+
+// Matches waiting for the court, first up first
+export const getCourtQueue = (courtMatches: Match[]): Match[] => {
+  return courtMatches.filter((m) => m.status === 'scheduled')
+}
+
+// The first queued match whose players are both known, which next-match calls
+export const getNextCallableMatch = (courtMatches: Match[]): Match | undefined => {
+  return getCourtQueue(courtMatches).find(
+    (m) => m.registration1Id !== null && m.registration2Id !== null
+  )
+}
+
+/**
+ * The court as shown to the control desk and court displays: the match
+ * playing on it and the matches queued after it
+ */
+export const buildCourtData = async (
+  court: Court,
+  event: Event,
+  tx: DbExecutor = db
+): Promise<CourtData> => {
+  const courtMatches = await getCourtMatches(court.id, tx)
+  const onCourt = getMatchOnCourt(courtMatches)
+
+  return {
+    id: court.id,
+    eventId: court.eventId,
+    name: court.name,
+    date: court.date,
+    nowPlaying: onCourt ? await enrichMatch(onCourt, event) : null,
+    upNext: await Promise.all(
+      getCourtQueue(courtMatches).map((m) => enrichMatch(m, event))
+    ),
+  }
+}
+
+/**
+ * Writes a court's order of play, numbering from 1
+ * Queue changes leave matches.version alone: they touch nothing a scorer
+ * edits, so they must not make a scorer's next update conflict
+ */
+const renumberCourt = async (
+  courtId: string,
+  orderedMatches: Match[],
+  tx: DbTransaction
+): Promise<void> => {
+  for (const [index, match] of orderedMatches.entries()) {
+    if (match.courtId === courtId && match.courtOrder === index + 1) continue
+
+    await tx
+      .update(matches)
+      .set({ courtId, courtOrder: index + 1, updatedAt: new Date() })
+      .where(eq(matches.id, match.id))
+  }
+}
+
+/**
+ * Takes a match off its court, closing the gap in that court's order
+ */
+const removeFromCourt = async (
+  match: Match,
+  tx: DbTransaction
+): Promise<void> => {
+  if (!match.courtId) return
+
+  await tx
+    .update(matches)
+    .set({ courtId: null, courtOrder: null, updatedAt: new Date() })
+    .where(eq(matches.id, match.id))
+
+  const remaining = await getCourtMatches(match.courtId, tx)
+  await renumberCourt(match.courtId, remaining, tx)
+}
+
+/**
+ * Queues a match on a court at a place in its queue (1 = up next; the end of
+ * the queue by default), taking it off any court it was on, or only takes it
+ * off with a null court. Only matches that have not been called can move.
+ * The courts involved must be locked by the caller
+ *
+ * @returns ID of the court the match left, if any
+ */
+export const assignMatchToCourt = async (
+  match: Match,
+  court: Court | null,
+  position: number | null,
+  tx: DbTransaction
+): Promise<string | null> => {
+  if (match.status !== 'scheduled') {
+    throw new Error(ERROR_MESSAGES.MATCH_ALREADY_CALLED)
+  }
+
+  if (court && court.eventId !== match.eventId) {
+    throw new Error(ERROR_MESSAGES.COURT_NOT_IN_EVENT)
+  }
+
+  if (court && match.matchDate && match.matchDate !== court.date) {
+    throw new Error(ERROR_MESSAGES.MATCH_NOT_ON_COURT_DAY)
+  }
+
+  const previousCourtId = match.courtId
+  await removeFromCourt(match, tx)
+
+  if (!court) return previousCourtId
+
+  const courtMatches = await getCourtMatches(court.id, tx)
+  const queue = getCourtQueue(courtMatches)
+  const index = Math.min(
+    Math.max((position ?? queue.length + 1) - 1, 0),
+    queue.length
+  )
+
+  // Matches that have been called keep their place ahead of the queue
+  await renumberCourt(
+    court.id,
+    [
+      ...courtMatches.filter((m) => m.status !== 'scheduled'),
+      ...queue.slice(0, index),
+      { ...match, courtId: null, courtOrder: null },
+      ...queue.slice(index),
+    ],
+    tx
+  )
+
+  return previousCourtId
+}
+
+/**
+ * Puts the queue of a court in a new order. `matchIds` must list exactly the
+ * matches waiting for the court. The court must be locked by the caller
+ */
+export const reorderCourtQueue = async (
+  court: Court,
+  matchIds: string[],
+  tx: DbTransaction
+): Promise<void> => {
+  const courtMatches = await getCourtMatches(court.id, tx)
+  const queue = getCourtQueue(courtMatches)
+
+  const sameMatches =
+    matchIds.length === queue.length &&
+    new Set(matchIds).size === matchIds.length &&
+    queue.every((m) => matchIds.includes(m.id))
+
+  if (!sameMatches) {
+    throw new Error(ERROR_MESSAGES.INVALID_COURT_QUEUE)
+  }
+
+  await renumberCourt(
+    court.id,
+    [
+      ...courtMatches.filter((m) => m.status !== 'scheduled'),
+      ...matchIds.map((id) => queue.find((m) => m.id === id) as Match),
+    ],
+    tx
+  )
+}
@@ -0,0 +1,229 @@
+import { eq, asc, inArray } from 'drizzle-orm'
+import { db, DbExecutor, DbTransaction } from '../config/db.config'
+import { heats, heatEntries, registrations, Heat, Event } from '../db/schema'
+import {
+  HeatData,
+  EventLeaderboardData,
+  LeaderboardEntryData,
+  RegistrationData,
+} from '../types/socket.types'
+import {
+  getPlayersPerHeat,
+  splitIntoHeats,
+  rankByScore,
+  HeatStatus,
+} from '../utils/heats'
+import { enrichRegistrationWithPlayers } from './registration.service'
+
+export const getHeatById = async (heatId: string) => {
+  const results = await db.select().from(heats).where(eq(heats.id, heatId)).limit(1)
+  return results.length > 0 ? results[0] : null
+}
+
+export const getHeatsForEvent = async (eventId: string, tx: DbExecutor = db) => {
+  return tx
+    .select()
+    .from(heats)
+    .where(eq(heats.eventId, eventId))
+    .orderBy(asc(heats.heatNumber))
+}
+
+export const getHeatEntries = async (heatId: string, tx: DbExecutor = db) => {
+  return tx
+    .select()
+    .from(heatEntries)
+    .where(eq(heatEntries.heatId, heatId))
+    .orderBy(asc(heatEntries.lane))
+}
+
+/**
+ * Locks a heat row until the surrounding transaction ends and returns it
+ * Result entries and status changes of the same heat serialize on this lock
+ */
+export const lockHeat = async (
+  heatId: string,
+  tx: DbTransaction
+): Promise<Heat | null> => {
+  const result = await tx
+    .select()
+    .from(heats)
+    .where(eq(heats.id, heatId))
+    .for('update')
+
+  return result.length > 0 ? result[0] : null
+}
+
+export const buildHeatData = async (
+  heat: Heat,
+  tx: DbExecutor = db
+): Promise<HeatData> => {
+  const entries = await getHeatEntries(heat.id, tx)
+
+  return {
+    id: heat.id,
+    eventId: heat.eventId,
+    heatNumber: heat.heatNumber,
+    status: heat.status,
+    startedAt: heat.startedAt?.toISOString() ?? null,
+    finishedAt: heat.finishedAt?.toISOString() ?? null,
+    entries: await Promise.all(
+      entries.map(async (entry) => ({
+        registrationId: entry.registrationId,
+        lane: entry.lane,
+        score: entry.score,
+        registration: await enrichRegistrationWithPlayers(entry.registrationId),
+      }))
+    ),
+  }
+}
+
+/**
+ * Replaces the heats of an event with a fresh draw of all its registrations,
+ * in seed order (unseeded registrations last, by registration time)
+ */
+export const generateEventHeats = async (
+  event: Event,
+  tx: DbTransaction
+): Promise<Heat[]> => {
+  const eventRegistrations = await tx
+    .select()
+    .from(registrations)
+    .where(eq(registrations.eventId, event.id))
+    .orderBy(asc(registrations.createdAt))
+
+  const seeded = [...eventRegistrations].sort(
+    (a, b) => (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER)
+  )
+
+  await tx.delete(heats).where(eq(heats.eventId, event.id))
+
+  const created: Heat[] = []
+  const draw = splitIntoHeats(seeded, getPlayersPerHeat(event))
+
+  for (const [index, heatRegistrations] of draw.entries()) {
+    const inserted = await tx
+      .insert(heats)
+      .values({ eventId: event.id, heatNumber: index + 1 })
+      .returning()
+
+    await tx.insert(heatEntries).values(
+      heatRegistrations.map((registration, lane) => ({
+        heatId: inserted[0].id,
+        registrationId: registration.id,
+        lane: lane + 1,
+      }))
+    )
+
+    created.push(inserted[0])
+  }
+
+  return created
+}
+
+/**
+ * Moves a registration into the last lane of a heat, taking it out of any
+ * heat it was in. Returns the heat it left, if any
+ */
+export const moveRegistrationToHeat = async (
+  registrationId: string,
+  heatId: string,
+  tx: DbTransaction
+): Promise<string | null> => {
+  const existing = await tx
+    .select()
+    .from(heatEntries)
+    .where(eq(heatEntries.registrationId, registrationId))
+    .for('update')
+
+  const previousHeatId = existing.length > 0 ? existing[0].heatId : null
+
+  if (existing.length > 0) {
+    await tx.delete(heatEntries).where(eq(heatEntries.id, existing[0].id))
+  }
+
+  const entries = await getHeatEntries(heatId, tx)
+  const lane = entries.reduce((max, e) => Math.max(max, e.lane), 0) + 1
+
+  await tx.insert(heatEntries).values({ heatId, registrationId, lane })
+
+  return previousHeatId
+}
+
+export const setHeatEntryScore = async (
+  entryId: string,
+  score: number | null,
+  tx: DbExecutor = db
+): Promise<void> => {
+  await tx
+    .update(heatEntries)
+    .set({ score, updatedAt: new Date() })
+    .where(eq(heatEntries.id, entryId))
+}
+
+export const setHeatStatus = async (
+  heat: Heat,
+  status: HeatStatus,
+  tx: DbExecutor = db
+): Promise<Heat> => {
+  const now = new Date()
+
+  const result = await tx
+    .update(heats)
+    .set({
+      status,
+      startedAt: status === 'pending' ? null : heat.startedAt ?? now,
+      finishedAt: status === 'finished' ? now : null,
+      updatedAt: now,
+    })
+    .where(eq(heats.id, heat.id))
+    .returning()
+
+  return result[0]
+}
+
+/**
+ * Ranks every registration of a tests event by its heat result
+ */
+export const getEventLeaderboard = async (
+  eventId: string,
+  tx: DbExecutor = db
+): Promise<EventLeaderboardData> => {
+  const eventHeats = await getHeatsForEvent(eventId, tx)
+  const heatIds = eventHeats.map((h) => h.id)
+
+  const entries =
+    heatIds.length > 0
+      ? await tx
+          .select()
+          .from(heatEntries)
+          .where(inArray(heatEntries.heatId, heatIds))
+      : []
+
+  const registrationData = new Map<string, RegistrationData | null>()
+  for (const entry of entries) {
+    registrationData.set(
+      entry.registrationId,
+      await enrichRegistrationWithPlayers(entry.registrationId)
+    )
+  }
+
+  const ranked: LeaderboardEntryData[] = rankByScore(
+    entries.map((entry) => ({
+      registrationId: entry.registrationId,
+      heatId: entry.heatId,
+      heatNumber: eventHeats.find((h) => h.id === entry.heatId)?.heatNumber ?? 0,
+      score: entry.score,
+      registration: registrationData.get(entry.registrationId) ?? null,
+    }))
+  )
+
+  const finishedHeats = eventHeats.filter((h) => h.status === 'finished').length
+
+  return {
+    eventId,
+    entries: ranked,
+    finishedHeats,
+    totalHeats: eventHeats.length,
+    completed: eventHeats.length > 0 && finishedHeats === eventHeats.length,
+  }
+}
@@ -2,5 +2,17 @@
 export * from './match.service'
 export * from './set.service'
 export * from './registration.service'
+export * from './point.service'
+export * from './action-history.service'
+export * from './scorer-claim.service'
 export * from './match-enrichment.service'
-
+export * from './position-score.service'
+export * from './heat.service'
+export * from './rubber.service'
+export * from './relay.service'
+export * from './standings.service'
+export * from './bracket.service'
+export * from './placement.service'
+export * from './ranking.service'
+export * from './court.service'
+export * from './schedule.service'
@@ -2,6 +2,9 @@ import { eq, asc } from 'drizzle-orm'
 import { db } from '../config/db.config'
 import { matches, sets, events, groups } from '../db/schema'
 import { enrichRegistrationWithPlayers } from './registration.service'
+import { getScorerClaim } from './scorer-claim.service'
+import { getRubbersForMatch, toRubberData } from './rubber.service'
+import { getScoringRules } from '../utils/scoring-rules'
 import { MatchDataResponse } from '../types/socket.types'
 
 /**
@@ -16,6 +19,8 @@ import { MatchDataResponse } from '../types/socket.types'
  * - Group data (if applicable)
  * - Event data
  * - isByeMatch flag
+ * - Current scorer claim
+ * - Rubbers (team ties only)
  */
 
 /**
@@ -59,6 +64,8 @@ export async function enrichMatch(
 
   const isByeMatch = match.registration1Id === null || match.registration2Id === null
 
+  const tieRubbers = await getRubbersForMatch(match.id)
+
   return {
     id: match.id,
     eventId: match.eventId,
@@ -69,19 +76,28 @@ export async function enrichMatch(
     registration2Id: match.registration2Id,
     matchDate: match.matchDate,
     played: match.played,
+    status: match.status,
+    statusChangedAt: match.statusChangedAt?.toISOString() ?? null,
+    courtId: match.courtId,
+    courtOrder: match.courtOrder,
+    scheduledAt: match.scheduledAt?.toISOString() ?? null,
     winnerId: match.winnerId,
     bracketPosition: match.bracketPosition,
     winnerTo: match.winnerTo,
     winnerToSlot: match.winnerToSlot,
+    version: match.version,
     createdAt: match.createdAt.toISOString(),
     updatedAt: match.updatedAt.toISOString(),
     sets: matchSets.map((s) => ({
       id: s.id,
       matchId: s.matchId,
+      rubberId: s.rubberId,
       setNumber: s.setNumber,
       registration1Score: s.registration1Score,
       registration2Score: s.registration2Score,
       played: s.played,
+      resultType: s.resultType,
+      version: s.version,
       createdAt: s.createdAt.toISOString(),
       updatedAt: s.updatedAt.toISOString(),
     })),
@@ -97,9 +113,12 @@ export async function enrichMatch(
       bestOf: event.bestOf,
       completed: event.completed,
       organizationId: event.organizationId,
+      scoringRules: getScoringRules(event),
     },
     group,
     isByeMatch,
+    scorer: getScorerClaim(match.id),
+    rubbers: tieRubbers.map((r) => toRubberData(r, registration1, registration2)),
   }
 }
 
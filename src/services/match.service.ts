@@ -1,6 +1,7 @@
-import { eq } from 'drizzle-orm'
-import { db } from '../config/db.config'
+import { eq, and, inArray } from 'drizzle-orm'
+import { db, DbTransaction } from '../config/db.config'
 import { matches, events, groups } from '../db/schema'
+import { nextVersion } from '../utils/versioning'
 
 export const getMatchById = async (matchId: string) => {
   const results = await db.select().from(matches).where(eq(matches.id, matchId)).limit(1)
@@ -12,6 +13,36 @@ export const getEventById = async (eventId: string) => {
   return results.length > 0 ? results[0] : null
 }
 
+/**
+ * Locks an event row for the rest of the transaction, so checks across all
+ * of its registrations (such as whether it is completed) run one at a time
+ */
+export const lockEvent = async (eventId: string, tx: DbTransaction) => {
+  const results = await tx
+    .select()
+    .from(events)
+    .where(eq(events.id, eventId))
+    .for('update')
+  return results.length > 0 ? results[0] : null
+}
+
+// Events still being played whose matches form a bracket
+export const getOpenBracketEvents = async () => {
+  return db
+    .select()
+    .from(events)
+    .where(
+      and(
+        eq(events.completed, false),
+        inArray(events.format, [
+          'single-elimination',
+          'double-elimination',
+          'groups-knockout',
+        ])
+      )
+    )
+}
+
 export const getGroupById = async (groupId: string) => {
   const results = await db.select().from(groups).where(eq(groups.id, groupId)).limit(1)
   return results.length > 0 ? results[0] : null
@@ -27,7 +58,11 @@ export const updateMatchStatus = async (
 ) => {
   await db
     .update(matches)
-    .set({ ...data, updatedAt: new Date() })
+    .set({
+      ...data,
+      version: nextVersion(matches.version),
+      updatedAt: new Date(),
+    })
     .where(eq(matches.id, matchId))
 }
 
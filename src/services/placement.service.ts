@@ -0,0 +1,266 @@
+import { eq, and, inArray, isNull } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import {
+  Placement,
+  PLACEMENTS,
+  PLACEMENT_TIER_NAMES,
+} from '../config/placements'
+import {
+  events,
+  eventResults,
+  groups,
+  matches,
+  placementTiers,
+  pointsSchemaEntry,
+  registrationPlayers,
+  registrations,
+  Event,
+} from '../db/schema'
+import { EventResultEntryData, EventResultsData } from '../types/socket.types'
+import {
+  isBracketFormat,
+  isGroupsFormat,
+  isRelayEvent,
+} from '../utils/match-completion'
+import { getBracketPlacements, getTablePlacement } from '../utils/placements'
+import { getGroupTable } from './standings.service'
+import { getRelayStandings } from './relay.service'
+import { enrichRegistrationWithPlayers } from './registration.service'
+
+/**
+ * Placement of every registration of a completed relay, bracket or groups
+ * event. Relay teams are placed by their rank in the relay standings, teams
+ * sharing a rank sharing the placement
+ */
+const getEventPlacements = async (
+  event: Pick<Event, 'id' | 'format' | 'eventType'>,
+  tx: DbExecutor
+): Promise<Map<string, Placement>> => {
+  if (isRelayEvent(event.eventType)) {
+    const { teams } = await getRelayStandings(event.id, tx)
+
+    return new Map(
+      teams.map((team) => [
+        team.registrationId,
+        team.rank ? getTablePlacement(team.rank) : 'participant',
+      ])
+    )
+  }
+
+  const eventRegistrations = await tx
+    .select({ id: registrations.id })
+    .from(registrations)
+    .where(eq(registrations.eventId, event.id))
+
+  const eventGroups = await tx
+    .select({ id: groups.id })
+    .from(groups)
+    .where(eq(groups.eventId, event.id))
+
+  const placements = new Map<string, Placement>()
+
+  if (isBracketFormat(event.format)) {
+    const bracketMatches = await tx
+      .select()
+      .from(matches)
+      .where(and(eq(matches.eventId, event.id), isNull(matches.groupId)))
+
+    for (const [registrationId, placement] of getBracketPlacements(
+      bracketMatches,
+      event.format
+    )) {
+      placements.set(registrationId, placement)
+    }
+  } else if (eventGroups.length === 1) {
+    for (const row of await getGroupTable(eventGroups[0].id, tx)) {
+      placements.set(row.id, getTablePlacement(row.position))
+    }
+  }
+
+  // Whoever the outcome does not place went out in the groups or is just a participant
+  const unplaced: Placement = eventGroups.length > 0 ? 'group-stage' : 'participant'
+  for (const registration of eventRegistrations) {
+    if (!placements.has(registration.id)) {
+      placements.set(registration.id, unplaced)
+    }
+  }
+
+  return placements
+}
+
+interface PlacementPoints {
+  placementTierId: string | null
+  points: number
+}
+
+/**
+ * Placement tier id and points of every placement awarded in an event.
+ * A placement without a tier, or whose tier the event's points schema has
+ * no entry for, is worth 0 points and logged, so a gap in the configuration
+ * never holds up the result that completes the event
+ */
+const getPlacementPoints = async (
+  placements: Placement[],
+  pointsSchemaId: string,
+  tx: DbExecutor
+): Promise<Map<Placement, PlacementPoints>> => {
+  const awarded = [...new Set(placements)]
+
+  const tiers = await tx
+    .select({ id: placementTiers.id, name: placementTiers.name })
+    .from(placementTiers)
+    .where(
+      inArray(
+        placementTiers.name,
+        awarded.map((placement) => PLACEMENT_TIER_NAMES[placement])
+      )
+    )
+
+  const schemaEntries = await tx
+    .select()
+    .from(pointsSchemaEntry)
+    .where(eq(pointsSchemaEntry.pointsSchemaId, pointsSchemaId))
+
+  const placementPoints = new Map<Placement, PlacementPoints>()
+
+  for (const placement of awarded) {
+    const tier = tiers.find((t) => t.name === PLACEMENT_TIER_NAMES[placement])
+
+    if (!tier) {
+      console.warn(
+        `[syncEventResults] No placement tier named ${PLACEMENT_TIER_NAMES[placement]} for placement ${placement}; awarding 0 points`
+      )
+      placementPoints.set(placement, { placementTierId: null, points: 0 })
+      continue
+    }
+
+    const entry = schemaEntries.find((e) => e.placementTierId === tier.id)
+
+    if (!entry) {
+      console.warn(
+        `[syncEventResults] Points schema ${pointsSchemaId} has no entry for placement tier ${tier.name}; awarding 0 points`
+      )
+    }
+
+    placementPoints.set(placement, {
+      placementTierId: tier.id,
+      points: entry?.points ?? 0,
+    })
+  }
+
+  return placementPoints
+}
+
+/**
+ * Rebuilds the results of a relay, bracket or groups event: once it is
+ * completed every player gets the placement of their registration and the
+ * points the event's points schema gives for it; while it is not, it has no
+ * results.
+ * Must run after events.completed is updated
+ */
+export const syncEventResults = async (
+  eventId: string,
+  tx: DbExecutor = db
+): Promise<void> => {
+  await tx.delete(eventResults).where(eq(eventResults.eventId, eventId))
+
+  const eventResult = await tx
+    .select()
+    .from(events)
+    .where(eq(events.id, eventId))
+    .limit(1)
+
+  if (eventResult.length === 0) return
+  const event = eventResult[0]
+
+  if (
+    !event.completed ||
+    !(
+      isRelayEvent(event.eventType) ||
+      isBracketFormat(event.format) ||
+      isGroupsFormat(event.format)
+    )
+  ) {
+    return
+  }
+
+  const placements = await getEventPlacements(event, tx)
+  if (placements.size === 0) return
+
+  const placementPoints = await getPlacementPoints(
+    [...placements.values()],
+    event.pointsSchemaId,
+    tx
+  )
+
+  const playerLinks = await tx
+    .select()
+    .from(registrationPlayers)
+    .where(inArray(registrationPlayers.registrationId, [...placements.keys()]))
+
+  const rows = playerLinks.map((link) => {
+    const placement = placements.get(link.registrationId) as Placement
+    const { placementTierId, points } = placementPoints.get(
+      placement
+    ) as PlacementPoints
+
+    return {
+      eventId,
+      registrationId: link.registrationId,
+      playerId: link.playerId,
+      placement,
+      placementTierId,
+      points,
+    }
+  })
+
+  if (rows.length > 0) {
+    await tx.insert(eventResults).values(rows)
+  }
+}
+
+/**
+ * The results of an event as sent to clients, one entry per registration
+ */
+export const getEventResults = async (
+  event: Pick<Event, 'id' | 'completed' | 'pointsSchemaId'>,
+  tx: DbExecutor = db
+): Promise<EventResultsData> => {
+  const rows = await tx
+    .select({
+      registrationId: eventResults.registrationId,
+      placement: eventResults.placement,
+      points: eventResults.points,
+      placementName: placementTiers.displayName,
+      placementRank: placementTiers.rank,
+    })
+    .from(eventResults)
+    .leftJoin(placementTiers, eq(placementTiers.id, eventResults.placementTierId))
+    .where(eq(eventResults.eventId, event.id))
+
+  const results: EventResultEntryData[] = []
+
+  for (const row of rows) {
+    if (results.some((r) => r.registrationId === row.registrationId)) continue
+
+    results.push({
+      registrationId: row.registrationId,
+      placement: row.placement as Placement,
+      placementName: row.placementName,
+      placementRank: row.placementRank,
+      points: row.points,
+      registration: await enrichRegistrationWithPlayers(row.registrationId),
+    })
+  }
+
+  results.sort(
+    (a, b) => PLACEMENTS.indexOf(a.placement) - PLACEMENTS.indexOf(b.placement)
+  )
+
+  return {
+    eventId: event.id,
+    completed: event.completed,
+    pointsSchemaId: event.pointsSchemaId,
+    results,
+  }
+}
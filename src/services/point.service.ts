@@ -0,0 +1,165 @@
+import { eq, and, asc, desc } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { sets, setPoints, Match, Set as MatchSet } from '../db/schema'
+import { nextVersion } from '../utils/versioning'
+
+export type PointSide = 1 | 2
+
+export const isValidSide = (side: unknown): side is PointSide => {
+  return side === 1 || side === 2
+}
+
+export const getPointsForSet = async (setId: string, tx: DbExecutor = db) => {
+  return tx
+    .select()
+    .from(setPoints)
+    .where(eq(setPoints.setId, setId))
+    .orderBy(asc(setPoints.sequence))
+}
+
+/**
+ * Counts the rallies each side won in a rally log
+ */
+export const getScoreFromPoints = (
+  points: { side: number }[]
+): { registration1Score: number; registration2Score: number } => {
+  let registration1Score = 0
+  let registration2Score = 0
+
+  for (const point of points) {
+    if (point.side === 1) {
+      registration1Score++
+    } else if (point.side === 2) {
+      registration2Score++
+    }
+  }
+
+  return { registration1Score, registration2Score }
+}
+
+/**
+ * Appends a rally to the set's log with the next sequence number
+ */
+export const recordPoint = async (
+  data: {
+    setId: string
+    matchId: string
+    side: PointSide
+    registrationId: string | null
+    recordedBy: string | null
+  },
+  tx: DbExecutor = db
+) => {
+  const lastPoint = await tx
+    .select()
+    .from(setPoints)
+    .where(eq(setPoints.setId, data.setId))
+    .orderBy(desc(setPoints.sequence))
+    .limit(1)
+
+  const sequence = lastPoint.length > 0 ? lastPoint[0].sequence + 1 : 1
+
+  const result = await tx
+    .insert(setPoints)
+    .values({
+      setId: data.setId,
+      matchId: data.matchId,
+      side: data.side,
+      registrationId: data.registrationId,
+      sequence,
+      recordedBy: data.recordedBy,
+    })
+    .returning()
+
+  return result.length > 0 ? result[0] : null
+}
+
+/**
+ * Removes the most recent rally from the set's log
+ * If a side is given, removes the most recent rally won by that side
+ */
+export const removeLastPoint = async (
+  setId: string,
+  side?: PointSide,
+  tx: DbExecutor = db
+) => {
+  const conditions = side
+    ? and(eq(setPoints.setId, setId), eq(setPoints.side, side))
+    : eq(setPoints.setId, setId)
+
+  const lastPoint = await tx
+    .select()
+    .from(setPoints)
+    .where(conditions)
+    .orderBy(desc(setPoints.sequence))
+    .limit(1)
+
+  if (lastPoint.length === 0) return null
+
+  await tx.delete(setPoints).where(eq(setPoints.id, lastPoint[0].id))
+
+  return lastPoint[0]
+}
+
+/**
+ * Brings the set's log in line with an absolute score: surplus rallies are
+ * removed newest first and missing ones appended for the side that lacks
+ * them, so the log always adds up to the score it was given
+ */
+export const reconcilePointLog = async (
+  setId: string,
+  match: Pick<Match, 'id' | 'registration1Id' | 'registration2Id'>,
+  target: { registration1Score: number; registration2Score: number },
+  recordedBy: string | null,
+  tx: DbExecutor = db
+): Promise<void> => {
+  const current = getScoreFromPoints(await getPointsForSet(setId, tx))
+
+  for (const side of [1, 2] as const) {
+    const have =
+      side === 1 ? current.registration1Score : current.registration2Score
+    const want =
+      side === 1 ? target.registration1Score : target.registration2Score
+
+    for (let i = have; i > want; i--) {
+      await removeLastPoint(setId, side, tx)
+    }
+
+    for (let i = have; i < want; i++) {
+      await recordPoint(
+        {
+          setId,
+          matchId: match.id,
+          side,
+          registrationId:
+            side === 1 ? match.registration1Id : match.registration2Id,
+          recordedBy,
+        },
+        tx
+      )
+    }
+  }
+}
+
+/**
+ * Writes the score the set's log adds up to into the set and bumps its
+ * version. The set's score columns only ever hold what the log says
+ */
+export const syncSetScoreFromLog = async (
+  setId: string,
+  tx: DbExecutor = db
+): Promise<MatchSet> => {
+  const score = getScoreFromPoints(await getPointsForSet(setId, tx))
+
+  const result = await tx
+    .update(sets)
+    .set({
+      ...score,
+      version: nextVersion(sets.version),
+      updatedAt: new Date(),
+    })
+    .where(eq(sets.id, setId))
+    .returning()
+
+  return result[0]
+}
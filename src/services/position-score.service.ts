@@ -0,0 +1,171 @@
+import { eq, asc } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { registrations, registrationPlayers, players } from '../db/schema'
+import { Position, PositionScores } from '../config/position-scoring'
+import {
+  PlayerPositionScoresData,
+  RegistrationPositionScoresData,
+} from '../types/socket.types'
+import {
+  getEventPositions,
+  parsePositionScores,
+  summarizePositionScores,
+  PositionAssignment,
+} from '../utils/position-scoring'
+import { getEventById } from './match.service'
+
+export const getRegistrationPlayerLinks = async (
+  registrationId: string,
+  tx: DbExecutor = db
+) => {
+  return tx
+    .select({
+      id: registrationPlayers.id,
+      playerId: registrationPlayers.playerId,
+      positionScores: registrationPlayers.positionScores,
+      order: registrationPlayers.order,
+      name: players.name,
+    })
+    .from(registrationPlayers)
+    .innerJoin(players, eq(players.id, registrationPlayers.playerId))
+    .where(eq(registrationPlayers.registrationId, registrationId))
+    .orderBy(asc(registrationPlayers.order))
+}
+
+/**
+ * Locks the player rows of a registration so concurrent score entries for
+ * the same registration are applied one after the other
+ */
+export const lockRegistrationPlayers = async (
+  registrationId: string,
+  tx: DbExecutor
+) => {
+  return tx
+    .select()
+    .from(registrationPlayers)
+    .where(eq(registrationPlayers.registrationId, registrationId))
+    .orderBy(asc(registrationPlayers.order))
+    .for('update')
+}
+
+/**
+ * Position scores and totals of one registration, as shown on the solo
+ * results board
+ */
+export const getRegistrationPositionScores = async (
+  registrationId: string,
+  tx: DbExecutor = db
+): Promise<RegistrationPositionScoresData | null> => {
+  const regResults = await tx
+    .select()
+    .from(registrations)
+    .where(eq(registrations.id, registrationId))
+    .limit(1)
+
+  if (regResults.length === 0) return null
+
+  const registration = regResults[0]
+  const event = await getEventById(registration.eventId)
+  const links = await getRegistrationPlayerLinks(registrationId, tx)
+
+  let total = 0
+  let scoredPositions = 0
+
+  const playerScores: PlayerPositionScoresData[] = links.map((link) => {
+    const positionScores = parsePositionScores(link.positionScores)
+    const summary = summarizePositionScores(positionScores)
+
+    total += summary.total
+    scoredPositions += summary.scored
+
+    return {
+      playerId: link.playerId,
+      name: link.name,
+      order: link.order,
+      positionScores,
+      total: summary.total,
+    }
+  })
+
+  const totalPositions = event ? getEventPositions(event)?.length ?? 0 : 0
+
+  return {
+    registrationId: registration.id,
+    eventId: registration.eventId,
+    groupId: registration.groupId,
+    teamName: registration.teamName,
+    players: playerScores,
+    total,
+    scoredPositions,
+    totalPositions,
+    finished: totalPositions > 0 && scoredPositions === totalPositions,
+  }
+}
+
+/**
+ * Results board of an event: every registration, highest total first
+ */
+export const getEventPositionScores = async (
+  eventId: string
+): Promise<RegistrationPositionScoresData[]> => {
+  const eventRegistrations = await db
+    .select({ id: registrations.id })
+    .from(registrations)
+    .where(eq(registrations.eventId, eventId))
+
+  const board: RegistrationPositionScoresData[] = []
+
+  for (const { id } of eventRegistrations) {
+    const entry = await getRegistrationPositionScores(id)
+    if (entry) board.push(entry)
+  }
+
+  return board.sort((a, b) => b.total - a.total)
+}
+
+/**
+ * Replaces the position assignment of a registration. A player keeps the
+ * score of a position they already had; players without an assignment have
+ * their positions cleared
+ */
+export const assignRegistrationPositions = async (
+  registrationId: string,
+  assignments: PositionAssignment[],
+  tx: DbExecutor
+): Promise<void> => {
+  const links = await lockRegistrationPlayers(registrationId, tx)
+
+  for (const link of links) {
+    const assignment = assignments.find((a) => a.playerId === link.playerId)
+    const current = parsePositionScores(link.positionScores)
+
+    let positionScores: PositionScores | null = null
+    if (assignment) {
+      positionScores = {}
+      for (const position of assignment.positions) {
+        positionScores[position] = current[position] ?? null
+      }
+    }
+
+    await tx
+      .update(registrationPlayers)
+      .set({ positionScores })
+      .where(eq(registrationPlayers.id, link.id))
+  }
+}
+
+/**
+ * Enters (or clears, with null) the score of one assigned position
+ */
+export const setPlayerPositionScore = async (
+  registrationPlayerId: string,
+  positionScores: PositionScores,
+  position: Position,
+  score: number | null,
+  tx: DbExecutor
+): Promise<void> => {
+  await tx
+    .update(registrationPlayers)
+    .set({ positionScores: { ...positionScores, [position]: score } })
+    .where(eq(registrationPlayers.id, registrationPlayerId))
+}
@@ -0,0 +1,161 @@
+import { eq, and, inArray } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { Placement } from '../config/placements'
+import {
+  championshipEditions,
+  championships,
+  eventResults,
+  events,
+  federations,
+  players,
+  getAgeGroup,
+  Event,
+} from '../db/schema'
+import {
+  FederationRankingData,
+  RankingCategoryData,
+  RankingResultData,
+} from '../types/socket.types'
+import { computeRanking } from '../utils/ranking'
+
+export interface RankingFilters {
+  eventType?: string
+  gender?: string
+  ageGroup?: string
+}
+
+export const getFederationById = async (federationId: string) => {
+  const results = await db
+    .select()
+    .from(federations)
+    .where(eq(federations.id, federationId))
+    .limit(1)
+  return results.length > 0 ? results[0] : null
+}
+
+/**
+ * The federation whose ranking an event counts towards, through its
+ * championship edition; null for events outside a championship
+ */
+export const getEventFederationId = async (
+  event: { championshipEditionId: string | null },
+  tx: DbExecutor = db
+): Promise<string | null> => {
+  if (!event.championshipEditionId) return null
+
+  const results = await tx
+    .select({ federationId: championships.federationId })
+    .from(championshipEditions)
+    .innerJoin(
+      championships,
+      eq(championships.id, championshipEditions.championshipId)
+    )
+    .where(eq(championshipEditions.id, event.championshipEditionId))
+    .limit(1)
+
+  return results.length > 0 ? results[0].federationId : null
+}
+
+/**
+ * Ranking tables of a federation, one per event type, event gender and age
+ * group, built from the placement points of its completed championship
+ * events. Only public events of published or archived editions count, since
+ * rankings are shown to anyone. A player's age group is that of the current
+ * season (getAgeGroup), so results move with the player as they get older
+ */
+export const getFederationRanking = async (
+  federationId: string,
+  filters: RankingFilters,
+  bestResults: number,
+  tx: DbExecutor = db
+): Promise<FederationRankingData> => {
+  const conditions = [
+    eq(championships.federationId, federationId),
+    eq(events.completed, true),
+    eq(events.visibility, 'public'),
+    inArray(championshipEditions.status, ['published', 'archived']),
+  ]
+
+  if (filters.eventType) {
+    conditions.push(
+      eq(events.eventType, filters.eventType as Event['eventType'])
+    )
+  }
+  if (filters.gender) {
+    conditions.push(eq(events.gender, filters.gender as Event['gender']))
+  }
+
+  const rows = await tx
+    .select({
+      playerId: eventResults.playerId,
+      playerName: players.name,
+      dateOfBirth: players.dateOfBirth,
+      eventId: events.id,
+      eventName: events.name,
+      eventType: events.eventType,
+      gender: events.gender,
+      championshipId: championships.id,
+      championshipName: championships.name,
+      editionYear: championshipEditions.year,
+      placement: eventResults.placement,
+      points: eventResults.points,
+    })
+    .from(eventResults)
+    .innerJoin(events, eq(events.id, eventResults.eventId))
+    .innerJoin(
+      championshipEditions,
+      eq(championshipEditions.id, events.championshipEditionId)
+    )
+    .innerJoin(
+      championships,
+      eq(championships.id, championshipEditions.championshipId)
+    )
+    .innerJoin(players, eq(players.id, eventResults.playerId))
+    .where(and(...conditions))
+
+  const results = rows
+    .map((row) => ({ ...row, ageGroup: getAgeGroup(row.dateOfBirth) }))
+    .filter((row) => !filters.ageGroup || row.ageGroup === filters.ageGroup)
+
+  const categoryKeys = [
+    ...new Set(results.map((r) => `${r.eventType}|${r.gender}|${r.ageGroup}`)),
+  ].sort()
+
+  const categories: RankingCategoryData[] = categoryKeys.map((key) => {
+    const [eventType, gender, ageGroup] = key.split('|')
+    const categoryResults = results.filter(
+      (r) => `${r.eventType}|${r.gender}|${r.ageGroup}` === key
+    )
+
+    return {
+      eventType,
+      gender,
+      ageGroup,
+      entries: computeRanking(categoryResults, bestResults).map((ranked) => ({
+        rank: ranked.rank,
+        player: {
+          id: ranked.playerId,
+          name: ranked.results[0].playerName,
+          image: null,
+        },
+        points: ranked.points,
+        totalPoints: ranked.totalPoints,
+        tied: ranked.tied,
+        results: ranked.results.map(
+          (r): RankingResultData => ({
+            eventId: r.eventId,
+            eventName: r.eventName,
+            championshipId: r.championshipId,
+            championshipName: r.championshipName,
+            editionYear: r.editionYear,
+            placement: r.placement as Placement,
+            points: r.points,
+            counted: r.counted,
+          })
+        ),
+      })),
+    }
+  })
+
+  return { federationId, bestResults, categories }
+}
@@ -0,0 +1,132 @@
+import { eq, asc } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { registrations, relayLegs, Registration, RelayLeg } from '../db/schema'
+import {
+  RelayLegData,
+  RelayTeamData,
+  RelayStandingsData,
+} from '../types/socket.types'
+import { rankByScore } from '../utils/heats'
+import { getRegistrationPlayerLinks } from './position-score.service'
+
+export const getRelayLegs = async (
+  registrationId: string,
+  tx: DbExecutor = db
+): Promise<RelayLeg[]> => {
+  return tx
+    .select()
+    .from(relayLegs)
+    .where(eq(relayLegs.registrationId, registrationId))
+    .orderBy(asc(relayLegs.legNumber))
+}
+
+/**
+ * A team's legs in running order with the cumulative score after each
+ * recorded leg. A team runs one leg per player
+ */
+export const getRelayTeam = async (
+  registration: Registration,
+  tx: DbExecutor = db
+): Promise<RelayTeamData> => {
+  const links = await getRegistrationPlayerLinks(registration.id, tx)
+  const recorded = await getRelayLegs(registration.id, tx)
+
+  let cumulative = 0
+  const legs: RelayLegData[] = links.map((link, index) => {
+    const leg = recorded.find((l) => l.legNumber === index + 1)
+
+    if (leg) {
+      cumulative += leg.score
+    }
+
+    return {
+      legNumber: index + 1,
+      playerId: link.playerId,
+      name: link.name,
+      score: leg?.score ?? null,
+      cumulativeScore: leg ? cumulative : null,
+    }
+  })
+
+  const completedLegs = legs.filter((l) => l.score !== null).length
+
+  return {
+    registrationId: registration.id,
+    eventId: registration.eventId,
+    teamName: registration.teamName,
+    legs,
+    total: cumulative,
+    completedLegs,
+    totalLegs: legs.length,
+    finished: legs.length > 0 && completedLegs === legs.length,
+  }
+}
+
+/**
+ * Ranks the teams of a relay event by total score, highest first. Only
+ * teams that finished every leg are ranked; the others follow by their
+ * running total. A team without players has no legs to run, so it is left
+ * out of the team counts and does not hold up completion
+ */
+export const getRelayStandings = async (
+  eventId: string,
+  tx: DbExecutor = db
+): Promise<RelayStandingsData> => {
+  const eventRegistrations = await tx
+    .select()
+    .from(registrations)
+    .where(eq(registrations.eventId, eventId))
+    .orderBy(asc(registrations.createdAt))
+
+  const teams: RelayTeamData[] = []
+  for (const registration of eventRegistrations) {
+    teams.push(await getRelayTeam(registration, tx))
+  }
+
+  const ranked = rankByScore(
+    [...teams]
+      .sort((a, b) => b.total - a.total)
+      .map((team) => ({ ...team, score: team.finished ? team.total : null }))
+  ).map(({ score: _score, ...entry }) => entry)
+
+  const runningTeams = teams.filter((t) => t.totalLegs > 0)
+  const finishedTeams = runningTeams.filter((t) => t.finished).length
+
+  return {
+    eventId,
+    teams: ranked,
+    finishedTeams,
+    totalTeams: runningTeams.length,
+    completed: runningTeams.length > 0 && finishedTeams === runningTeams.length,
+  }
+}
+
+export const addRelayLeg = async (
+  registrationId: string,
+  legNumber: number,
+  playerId: string,
+  score: number,
+  tx: DbExecutor = db
+): Promise<void> => {
+  await tx
+    .insert(relayLegs)
+    .values({ registrationId, legNumber, playerId, score })
+}
+
+export const updateRelayLegScore = async (
+  legId: string,
+  score: number,
+  tx: DbExecutor = db
+): Promise<void> => {
+  await tx
+    .update(relayLegs)
+    .set({ score, updatedAt: new Date() })
+    .where(eq(relayLegs.id, legId))
+}
+
+export const removeRelayLeg = async (
+  legId: string,
+  tx: DbExecutor = db
+): Promise<void> => {
+  await tx.delete(relayLegs).where(eq(relayLegs.id, legId))
+}
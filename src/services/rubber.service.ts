@@ -0,0 +1,121 @@
+import { eq, asc } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { rubbers, sets, Match, Rubber } from '../db/schema'
+import { RubberData, RegistrationData } from '../types/socket.types'
+import { countsTowardsResult } from './set.service'
+
+export const getRubberById = async (rubberId: string, tx: DbExecutor = db) => {
+  const results = await tx
+    .select()
+    .from(rubbers)
+    .where(eq(rubbers.id, rubberId))
+    .limit(1)
+  return results.length > 0 ? results[0] : null
+}
+
+export const getRubbersForMatch = async (
+  matchId: string,
+  tx: DbExecutor = db
+) => {
+  return tx
+    .select()
+    .from(rubbers)
+    .where(eq(rubbers.matchId, matchId))
+    .orderBy(asc(rubbers.rubberNumber))
+}
+
+export const createTieRubbers = async (
+  matchId: string,
+  lineup: { registration1PlayerId: string; registration2PlayerId: string }[],
+  tx: DbExecutor = db
+): Promise<Rubber[]> => {
+  await tx.delete(rubbers).where(eq(rubbers.matchId, matchId))
+
+  return tx
+    .insert(rubbers)
+    .values(
+      lineup.map((pairing, index) => ({
+        matchId,
+        rubberNumber: index + 1,
+        registration1PlayerId: pairing.registration1PlayerId,
+        registration2PlayerId: pairing.registration2PlayerId,
+      }))
+    )
+    .returning()
+}
+
+export const setRubberResult = async (
+  rubberId: string,
+  winnerId: string | null,
+  tx: DbExecutor = db
+): Promise<Rubber> => {
+  const result = await tx
+    .update(rubbers)
+    .set({ played: winnerId !== null, winnerId, updatedAt: new Date() })
+    .where(eq(rubbers.id, rubberId))
+    .returning()
+
+  return result[0]
+}
+
+/**
+ * Played rubbers as one-set results, so a tie runs through the same
+ * standings and majority logic as a regular match: every rubber won counts
+ * as a set won
+ */
+export const toRubberResults = (
+  tieRubbers: Pick<Rubber, 'played' | 'winnerId'>[],
+  match: Pick<Match, 'registration1Id' | 'registration2Id'>
+): { registration1Score: number; registration2Score: number }[] => {
+  return tieRubbers
+    .filter((r) => r.played && r.winnerId)
+    .map((r) => ({
+      registration1Score: r.winnerId === match.registration1Id ? 1 : 0,
+      registration2Score: r.winnerId === match.registration2Id ? 1 : 0,
+    }))
+}
+
+/**
+ * Results a match was decided on: its rubbers for a team tie, otherwise its
+ * played sets
+ */
+export const getMatchResultSets = async (
+  match: Pick<Match, 'id' | 'registration1Id' | 'registration2Id'>,
+  tx: DbExecutor = db
+): Promise<{ registration1Score: number; registration2Score: number }[]> => {
+  const tieRubbers = await getRubbersForMatch(match.id, tx)
+
+  if (tieRubbers.length > 0) {
+    return toRubberResults(tieRubbers, match)
+  }
+
+  const playedSets = await tx
+    .select()
+    .from(sets)
+    .where(eq(sets.matchId, match.id))
+    .orderBy(asc(sets.setNumber))
+
+  return playedSets.filter(countsTowardsResult)
+}
+
+export const toRubberData = (
+  rubber: Rubber,
+  registration1: RegistrationData | null,
+  registration2: RegistrationData | null
+): RubberData => {
+  return {
+    id: rubber.id,
+    matchId: rubber.matchId,
+    rubberNumber: rubber.rubberNumber,
+    registration1PlayerId: rubber.registration1PlayerId,
+    registration2PlayerId: rubber.registration2PlayerId,
+    registration1Player:
+      registration1?.players.find((p) => p.id === rubber.registration1PlayerId) ??
+      null,
+    registration2Player:
+      registration2?.players.find((p) => p.id === rubber.registration2PlayerId) ??
+      null,
+    played: rubber.played,
+    winnerId: rubber.winnerId,
+  }
+}
@@ -0,0 +1,209 @@
+import { eq, and, inArray, isNotNull } from 'drizzle-orm'
+import { format } from 'date-fns'
+import { db, DbExecutor, DbTransaction } from '../config/db.config'
+import { ERROR_MESSAGES } from '../config/constants'
+import { events, matches, registrationPlayers, Event, Match } from '../db/schema'
+import {
+  ScheduleData,
+  ScheduledMatchData,
+  ScheduleConflictData,
+} from '../types/socket.types'
+import {
+  ScheduleSlot,
+  estimateMatchMinutes,
+  getMinRestMinutes,
+  getSlotEnd,
+  findScheduleConflicts,
+  projectSchedule,
+} from '../utils/scheduling'
+import { nextVersion } from '../utils/versioning'
+import { lockCourt } from './court.service'
+
+// Day of a start time (YYYY-MM-DD), as stored in matches.match_date
+export const getScheduleDay = (scheduledAt: Date): string => {
+  return format(scheduledAt, 'yyyy-MM-dd')
+}
+
+const toScheduleSlot = (
+  match: Match,
+  event: Event,
+  playerIds: Map<string, string[]>
+): ScheduleSlot => {
+  return {
+    matchId: match.id,
+    eventId: match.eventId,
+    courtId: match.courtId,
+    playerIds: [match.registration1Id, match.registration2Id].flatMap(
+      (registrationId) => (registrationId ? playerIds.get(registrationId) ?? [] : [])
+    ),
+    scheduledAt: match.scheduledAt as Date,
+    durationMinutes: estimateMatchMinutes(event),
+    minRestMinutes: getMinRestMinutes(event),
+    status: match.status,
+    statusChangedAt: match.statusChangedAt,
+  }
+}
+
+/**
+ * Players of each registration, so doubles partners clash with each other's
+ * matches
+ */
+const getRegistrationPlayerIds = async (
+  registrationIds: string[],
+  tx: DbExecutor
+): Promise<Map<string, string[]>> => {
+  const playerIds = new Map<string, string[]>()
+  if (registrationIds.length === 0) return playerIds
+
+  const links = await tx
+    .select()
+    .from(registrationPlayers)
+    .where(inArray(registrationPlayers.registrationId, registrationIds))
+
+  for (const link of links) {
+    playerIds.set(link.registrationId, [
+      ...(playerIds.get(link.registrationId) ?? []),
+      link.playerId,
+    ])
+  }
+
+  return playerIds
+}
+
+/**
+ * Every match with a start time on a day, across all events, since a player
+ * entered in several events can clash between them
+ */
+export const getDayScheduleSlots = async (
+  date: string,
+  tx: DbExecutor = db
+): Promise<ScheduleSlot[]> => {
+  const rows = await tx
+    .select({ match: matches, event: events })
+    .from(matches)
+    .innerJoin(events, eq(matches.eventId, events.id))
+    .where(and(eq(matches.matchDate, date), isNotNull(matches.scheduledAt)))
+
+  const registrationIds = rows.flatMap(({ match }) =>
+    [match.registration1Id, match.registration2Id].filter(
+      (id): id is string => id !== null
+    )
+  )
+  const playerIds = await getRegistrationPlayerIds(
+    [...new Set(registrationIds)],
+    tx
+  )
+
+  return rows.map(({ match, event }) => toScheduleSlot(match, event, playerIds))
+}
+
+/**
+ * Clashes the match would have with the other matches of its players if it
+ * started at `scheduledAt`
+ */
+export const getMatchScheduleConflicts = async (
+  match: Match,
+  event: Event,
+  scheduledAt: Date,
+  tx: DbExecutor = db
+): Promise<ScheduleConflictData[]> => {
+  const date = getScheduleDay(scheduledAt)
+  const others = (await getDayScheduleSlots(date, tx)).filter(
+    (slot) => slot.matchId !== match.id
+  )
+  const playerIds = await getRegistrationPlayerIds(
+    [match.registration1Id, match.registration2Id].filter(
+      (id): id is string => id !== null
+    ),
+    tx
+  )
+
+  return findScheduleConflicts(
+    [...others, toScheduleSlot({ ...match, scheduledAt }, event, playerIds)],
+    match.id
+  )
+}
+
+/**
+ * Sets the start time of a match, moving its match date to that day, or
+ * clears it with null. A match queued on a court stays on the court's day;
+ * the court is locked while that is checked
+ */
+export const setMatchSchedule = async (
+  match: Match,
+  scheduledAt: Date | null,
+  tx: DbTransaction
+): Promise<Match> => {
+  if (match.status !== 'scheduled') {
+    throw new Error(ERROR_MESSAGES.MATCH_ALREADY_CALLED)
+  }
+
+  const matchDate = scheduledAt ? getScheduleDay(scheduledAt) : match.matchDate
+
+  if (match.courtId && matchDate !== match.matchDate) {
+    const court = await lockCourt(match.courtId, tx)
+
+    if (court && court.date !== matchDate) {
+      throw new Error(ERROR_MESSAGES.MATCH_NOT_ON_COURT_DAY)
+    }
+  }
+
+  const updated = await tx
+    .update(matches)
+    .set({
+      scheduledAt,
+      matchDate,
+      version: nextVersion(matches.version),
+      updatedAt: new Date(),
+    })
+    .where(eq(matches.id, match.id))
+    .returning()
+
+  return updated[0]
+}
+
+/**
+ * An event's matches of a day in start order, with their projected start
+ * after the delays of the day so far, and the clashes involving them
+ */
+export const getEventSchedule = async (
+  event: Event,
+  date: string,
+  now: Date = new Date()
+): Promise<ScheduleData> => {
+  const slots = await getDayScheduleSlots(date)
+  const projected = projectSchedule(slots, now)
+  const eventMatchIds = slots
+    .filter((slot) => slot.eventId === event.id)
+    .map((slot) => slot.matchId)
+
+  const scheduledMatches: ScheduledMatchData[] = slots
+    .filter((slot) => slot.eventId === event.id)
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())
+    .map((slot) => {
+      const projection = projected.find((p) => p.matchId === slot.matchId)
+
+      return {
+        matchId: slot.matchId,
+        eventId: slot.eventId,
+        courtId: slot.courtId,
+        status: slot.status,
+        scheduledAt: slot.scheduledAt.toISOString(),
+        estimatedMinutes: slot.durationMinutes,
+        estimatedEndAt: getSlotEnd(slot).toISOString(),
+        expectedStartAt: projection?.expectedStartAt?.toISOString() ?? null,
+        delayMinutes: projection?.delayMinutes ?? 0,
+      }
+    })
+
+  return {
+    eventId: event.id,
+    date,
+    matches: scheduledMatches,
+    conflicts: findScheduleConflicts(slots).filter(
+      (conflict) =>
+        eventMatchIds.includes(conflict.matchId) ||
+        eventMatchIds.includes(conflict.conflictingMatchId)
+    ),
+  }
+}
@@ -0,0 +1,128 @@
+import { SCORER_CLAIM_TIMEOUT_MS, ERROR_MESSAGES } from '../config/constants'
+import { ScorerClaimData } from '../types/socket.types'
+
+interface ScorerClaim {
+  matchId: string
+  // Socket of the scoring device: two devices on one account are two scorers
+  deviceId: string
+  userId: string
+  userName: string
+  claimedAt: Date
+  expiresAt: Date
+  timer?: NodeJS.Timeout
+  onExpire: (claim: ScorerClaim) => void
+}
+
+// Active scoring claims by match, kept in memory for the lifetime of the server
+const scorerClaims = new Map<string, ScorerClaim>()
+
+const toScorerClaimData = (claim: ScorerClaim): ScorerClaimData => ({
+  deviceId: claim.deviceId,
+  userId: claim.userId,
+  userName: claim.userName,
+  claimedAt: claim.claimedAt.toISOString(),
+  expiresAt: claim.expiresAt.toISOString(),
+})
+
+const startExpiryTimer = (claim: ScorerClaim): void => {
+  clearTimeout(claim.timer)
+  claim.expiresAt = new Date(Date.now() + SCORER_CLAIM_TIMEOUT_MS)
+  claim.timer = setTimeout(() => {
+    if (scorerClaims.get(claim.matchId) === claim) {
+      scorerClaims.delete(claim.matchId)
+      claim.onExpire(claim)
+    }
+  }, SCORER_CLAIM_TIMEOUT_MS)
+  claim.timer.unref()
+}
+
+export const getScorerClaim = (matchId: string): ScorerClaimData | null => {
+  const claim = scorerClaims.get(matchId)
+  return claim ? toScorerClaimData(claim) : null
+}
+
+/**
+ * Gives a user's device the scoring claim for a match, replacing any existing
+ * claim. onExpire is called if the claim times out without activity.
+ */
+export const setScorerClaim = (
+  matchId: string,
+  deviceId: string,
+  user: { id: string; name: string },
+  onExpire: (claim: ScorerClaimData) => void
+): ScorerClaimData => {
+  const existing = scorerClaims.get(matchId)
+  if (existing) clearTimeout(existing.timer)
+
+  const claim: ScorerClaim = {
+    matchId,
+    deviceId,
+    userId: user.id,
+    userName: user.name,
+    claimedAt:
+      existing?.deviceId === deviceId ? existing.claimedAt : new Date(),
+    expiresAt: new Date(),
+    onExpire: (expired) => onExpire(toScorerClaimData(expired)),
+  }
+
+  scorerClaims.set(matchId, claim)
+  startExpiryTimer(claim)
+
+  return toScorerClaimData(claim)
+}
+
+export const clearScorerClaim = (matchId: string): void => {
+  const claim = scorerClaims.get(matchId)
+  if (!claim) return
+
+  clearTimeout(claim.timer)
+  scorerClaims.delete(matchId)
+}
+
+/**
+ * Drops every claim held by a device, e.g. when its socket disconnects
+ *
+ * @returns The dropped claims with their matches
+ */
+export const clearDeviceClaims = (
+  deviceId: string
+): { matchId: string; claim: ScorerClaimData }[] => {
+  const dropped: { matchId: string; claim: ScorerClaimData }[] = []
+
+  for (const claim of [...scorerClaims.values()]) {
+    if (claim.deviceId !== deviceId) continue
+
+    clearTimeout(claim.timer)
+    scorerClaims.delete(claim.matchId)
+    dropped.push({ matchId: claim.matchId, claim: toScorerClaimData(claim) })
+  }
+
+  return dropped
+}
+
+/**
+ * Check if a device may run mutating commands on a match
+ * Unclaimed matches are open to anyone authorized for the event; a claimed
+ * match only accepts the device holding the claim, whose activity keeps the
+ * claim alive. Another device of the same user is refused like anyone else
+ */
+export const checkScorerClaim = (
+  matchId: string,
+  deviceId: string
+): { authorized: boolean; error?: string } => {
+  const claim = scorerClaims.get(matchId)
+
+  if (!claim) {
+    return { authorized: true }
+  }
+
+  if (claim.deviceId !== deviceId) {
+    return {
+      authorized: false,
+      error: `${ERROR_MESSAGES.SCORING_CLAIMED} (${claim.userName})`,
+    }
+  }
+
+  startExpiryTimer(claim)
+  return { authorized: true }
+}
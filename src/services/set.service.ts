@@ -1,27 +1,61 @@
 import { eq, asc } from 'drizzle-orm'
-import { db } from '../config/db.config'
-import { sets } from '../db/schema'
+import { db, DbExecutor, DbTransaction } from '../config/db.config'
+import { sets, Set as MatchSet } from '../db/schema'
+import { nextVersion } from '../utils/versioning'
+
+/**
+ * Whether a set counts towards the match result and set / point totals: it
+ * was played out, or awarded. A set interrupted by a retirement keeps its
+ * score for the record but counts for neither side
+ */
+export const countsTowardsResult = (
+  set: Pick<MatchSet, 'played' | 'resultType'>
+): boolean => {
+  return set.played && set.resultType !== 'retired'
+}
 
 export const getSetById = async (setId: string) => {
   const results = await db.select().from(sets).where(eq(sets.id, setId)).limit(1)
   return results.length > 0 ? results[0] : null
 }
 
-export const getSetsForMatch = async (matchId: string) => {
-  return db.select().from(sets).where(eq(sets.matchId, matchId)).orderBy(asc(sets.setNumber))
+/**
+ * Locks a set row until the surrounding transaction ends and returns it
+ * Lock the set's match first, as the completion pipeline does
+ */
+export const lockSet = async (
+  setId: string,
+  tx: DbTransaction
+): Promise<MatchSet | null> => {
+  const result = await tx
+    .select()
+    .from(sets)
+    .where(eq(sets.id, setId))
+    .for('update')
+
+  return result.length > 0 ? result[0] : null
 }
 
-export const createMatchSet = async (data: {
-  matchId: string
-  setNumber: number
-  registration1Score?: number
-  registration2Score?: number
-  played?: boolean
-}) => {
-  const result = await db
+export const getSetsForMatch = async (matchId: string, tx: DbExecutor = db) => {
+  return tx.select().from(sets).where(eq(sets.matchId, matchId)).orderBy(asc(sets.setNumber))
+}
+
+export const createMatchSet = async (
+  data: {
+    matchId: string
+    rubberId?: string | null
+    setNumber: number
+    registration1Score?: number
+    registration2Score?: number
+    played?: boolean
+  },
+  tx: DbExecutor = db
+) => {
+  const result = await tx
     .insert(sets)
     .values({
       matchId: data.matchId,
+      rubberId: data.rubberId ?? null,
       setNumber: data.setNumber,
       registration1Score: data.registration1Score ?? 0,
       registration2Score: data.registration2Score ?? 0,
@@ -42,7 +76,7 @@ export const updateSetScore = async (
 ) => {
   const result = await db
     .update(sets)
-    .set({ ...data, updatedAt: new Date() })
+    .set({ ...data, version: nextVersion(sets.version), updatedAt: new Date() })
     .where(eq(sets.id, setId))
     .returning()
 
@@ -52,15 +86,19 @@ export const updateSetScore = async (
 export const markSetAsPlayed = async (setId: string) => {
   const result = await db
     .update(sets)
-    .set({ played: true, updatedAt: new Date() })
+    .set({
+      played: true,
+      version: nextVersion(sets.version),
+      updatedAt: new Date(),
+    })
     .where(eq(sets.id, setId))
     .returning()
 
   return result.length > 0 ? result[0] : null
 }
 
-export const getPlayedSetsForMatch = async (matchId: string) => {
-  const allSets = await getSetsForMatch(matchId)
-  return allSets.filter((s) => s.played)
+export const getPlayedSetsForMatch = async (matchId: string, tx: DbExecutor = db) => {
+  const allSets = await getSetsForMatch(matchId, tx)
+  return allSets.filter(countsTowardsResult)
 }
 
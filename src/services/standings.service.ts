@@ -0,0 +1,100 @@
+import { eq, and, ne, inArray } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { events, groups, matches, registrations, sets, Registration } from '../db/schema'
+import { GroupStandingsEntryData } from '../types/socket.types'
+import {
+  computeStandings,
+  getTiebreakers,
+  RankedStandingsRow,
+  StandingsMatch,
+} from '../utils/standings'
+import { enrichRegistrationWithPlayers } from './registration.service'
+
+/**
+ * The table of a group ranked with its event's tiebreak chain, leader
+ * first. This is the only ordering used for qualification and shown to clients
+ */
+export const getGroupTable = async (
+  groupId: string,
+  tx: DbExecutor = db
+): Promise<RankedStandingsRow<Registration>[]> => {
+  const groupResult = await tx
+    .select({ tiebreakers: events.tiebreakers })
+    .from(groups)
+    .innerJoin(events, eq(events.id, groups.eventId))
+    .where(eq(groups.id, groupId))
+    .limit(1)
+
+  if (groupResult.length === 0) return []
+
+  const groupRegistrations = await tx
+    .select()
+    .from(registrations)
+    .where(eq(registrations.groupId, groupId))
+
+  const playedMatches = await tx
+    .select()
+    .from(matches)
+    .where(and(eq(matches.groupId, groupId), eq(matches.played, true)))
+
+  const playedSets =
+    playedMatches.length > 0
+      ? await tx
+          .select()
+          .from(sets)
+          .where(
+            and(
+              inArray(
+                sets.matchId,
+                playedMatches.map((m) => m.id)
+              ),
+              eq(sets.played, true),
+              // A set interrupted by a retirement counts for neither side
+              ne(sets.resultType, 'retired')
+            )
+          )
+      : []
+
+  const standingsMatches: StandingsMatch[] = playedMatches.map((match) => ({
+    registration1Id: match.registration1Id,
+    registration2Id: match.registration2Id,
+    winnerId: match.winnerId,
+    sets: playedSets.filter((s) => s.matchId === match.id),
+  }))
+
+  return computeStandings(
+    groupRegistrations,
+    standingsMatches,
+    getTiebreakers(groupResult[0])
+  )
+}
+
+/**
+ * The group table as sent to clients
+ */
+export const getGroupStandings = async (
+  groupId: string,
+  tx: DbExecutor = db
+): Promise<GroupStandingsEntryData[]> => {
+  const table = await getGroupTable(groupId, tx)
+
+  return Promise.all(
+    table.map(async (row) => ({
+      position: row.position,
+      registrationId: row.id,
+      points: row.points,
+      matchesWon: row.matchesWon,
+      matchesLost: row.matchesLost,
+      setsWon: row.setsWon,
+      setsLost: row.setsLost,
+      setDifference: row.setDifference,
+      pointsFor: row.pointsFor,
+      pointsAgainst: row.pointsAgainst,
+      pointDifference: row.pointDifference,
+      decidedBy: row.decidedBy,
+      tied: row.tied,
+      qualified: row.qualified,
+      registration: await enrichRegistrationWithPlayers(row.id),
+    }))
+  )
+}
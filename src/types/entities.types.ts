@@ -1,6 +1,12 @@
 // Data entity types
 import { Socket } from 'socket.io'
 import { UserData } from '../middlewares/auth.middleware'
+import { ScoringRules } from '../config/scoring-rules'
+import { Position, PositionScores } from '../config/position-scoring'
+import { Tiebreaker } from '../config/tiebreakers'
+import { Placement } from '../config/placements'
+
+export type { Position, PositionScores, Tiebreaker, Placement }
 
 export interface SocketData {
   userData: UserData
@@ -33,17 +39,46 @@ export interface RegistrationData {
   players: PlayerData[]
 }
 
+export type MatchStatus =
+  | 'scheduled'
+  | 'called'
+  | 'warm-up'
+  | 'in-progress'
+  | 'paused'
+  | 'completed'
+  | 'walkover'
+  | 'retired'
+  | 'cancelled'
+
+export type HeatStatus = 'pending' | 'in-progress' | 'finished'
+
 export interface SetData {
   id: string
   matchId: string
+  // Rubber the set belongs to in a team tie
+  rubberId: string | null
   setNumber: number
   registration1Score: number
   registration2Score: number
   played: boolean
+  resultType: 'played' | 'awarded' | 'retired'
+  version: number
   createdAt: string
   updatedAt: string
 }
 
+export interface RubberData {
+  id: string
+  matchId: string
+  rubberNumber: number
+  registration1PlayerId: string
+  registration2PlayerId: string
+  registration1Player: PlayerData | null
+  registration2Player: PlayerData | null
+  played: boolean
+  winnerId: string | null
+}
+
 export interface EventData {
   id: string
   name: string
@@ -53,6 +88,7 @@ export interface EventData {
   bestOf: number
   completed: boolean
   organizationId?: string | null
+  scoringRules: ScoringRules
 }
 
 export interface GroupData {
@@ -1,4 +1,5 @@
 // Client -> Server event payloads
+import { MatchStatus, Position, HeatStatus } from './entities.types'
 
 export interface JoinMatchData {
   matchId: string
@@ -8,13 +9,33 @@ export interface LeaveMatchData {
   matchId: string
 }
 
+export interface JoinEventData {
+  eventId: string
+}
+
+export interface LeaveEventData {
+  eventId: string
+}
+
+export interface JoinGroupData {
+  groupId: string
+}
+
+export interface LeaveGroupData {
+  groupId: string
+}
+
 export interface GetMatchData {
   matchId: string
 }
 
 export interface CreateSetData {
   matchId: string
+  // Required for team ties: the rubber the set belongs to
+  rubberId?: string
   setNumber?: number
+  // Version of the match the client last saw
+  version: number
 }
 
 export interface UpdateSetScoreData {
@@ -22,15 +43,250 @@ export interface UpdateSetScoreData {
   registration1Score: number
   registration2Score: number
   played?: boolean
+  version: number
 }
 
 export interface MarkSetPlayedData {
   setId: string
+  version: number
+}
+
+export interface CorrectSetData {
+  setId: string
+  registration1Score: number
+  registration2Score: number
+  // false reopens the set; defaults to keeping it played
+  played?: boolean
+  reason: string
+}
+
+export interface ScorePointData {
+  setId: string
+  side: 1 | 2
+}
+
+export interface RemovePointData {
+  setId: string
+  side?: 1 | 2
+}
+
+export interface UndoActionData {
+  matchId: string
+}
+
+export interface RedoActionData {
+  matchId: string
+}
+
+export interface ClaimScoringData {
+  matchId: string
+  // Take over a claim held by someone else (club admins and owners only)
+  force?: boolean
+}
+
+export interface ReleaseScoringData {
+  matchId: string
+}
+
+export interface ChangeMatchStatusData {
+  matchId: string
+  status: MatchStatus
+  reason?: string
+  version: number
+}
+
+export interface RecordWalkoverData {
+  matchId: string
+  // The registration that showed up
+  winnerId: string
+  reason?: string
+  version: number
+}
+
+export interface RecordRetirementData {
+  matchId: string
+  // The registration that did not retire
+  winnerId: string
+  reason?: string
+  version: number
+}
+
+export interface GetPositionScoresData {
+  eventId: string
+}
+
+export interface AssignPositionsData {
+  registrationId: string
+  // Replaces the registration's assignment; players left out have no positions
+  assignments: { playerId: string; positions: Position[] }[]
+}
+
+export interface UpdatePositionScoreData {
+  registrationId: string
+  playerId: string
+  position: Position
+  // null clears an entered score
+  score: number | null
+}
+
+export interface JoinHeatData {
+  heatId: string
+}
+
+export interface LeaveHeatData {
+  heatId: string
+}
+
+export interface GetHeatData {
+  heatId: string
+}
+
+export interface GetLeaderboardData {
+  eventId: string
+}
+
+export interface GenerateHeatsData {
+  eventId: string
+}
+
+export interface AssignHeatData {
+  registrationId: string
+  heatId: string
+}
+
+export interface UpdateHeatStatusData {
+  heatId: string
+  status: HeatStatus
+}
+
+export interface RecordHeatResultData {
+  heatId: string
+  registrationId: string
+  // null clears an entered result
+  score: number | null
+}
+
+export interface GetBracketData {
+  eventId: string
+}
+
+export interface ResolveByesData {
+  eventId: string
+}
+
+export interface GetEventResultsData {
+  eventId: string
+}
+
+export interface GetRankingData {
+  federationId: string
+  // Narrow the ranking to one category; all categories when omitted
+  eventType?: string
+  gender?: string
+  ageGroup?: string
+  // Results counted per player (default 5)
+  bestResults?: number
+}
+
+export interface JoinFederationData {
+  federationId: string
+}
+
+export interface LeaveFederationData {
+  federationId: string
+}
+
+export interface GetCourtsData {
+  eventId: string
+  // One event day (YYYY-MM-DD); every day when omitted
+  date?: string
+}
+
+export interface CreateCourtData {
+  eventId: string
+  name: string
+  // Event day (YYYY-MM-DD)
+  date: string
+}
+
+export interface DeleteCourtData {
+  courtId: string
+}
+
+export interface JoinCourtData {
+  courtId: string
+}
+
+export interface LeaveCourtData {
+  courtId: string
+}
+
+export interface AssignCourtData {
+  matchId: string
+  // null takes the match off its court
+  courtId: string | null
+  // Place in the court's queue, 1 = up next; end of the queue when omitted
+  position?: number
+}
+
+export interface ReorderCourtData {
+  courtId: string
+  // Every match waiting for the court, in the new order
+  matchIds: string[]
+}
+
+export interface CallMatchData {
+  matchId: string
+  version: number
+}
+
+export interface NextMatchData {
+  courtId: string
+}
+
+export interface ScheduleMatchData {
+  matchId: string
+  // ISO date-time; null unschedules the match
+  scheduledAt: string | null
+  version: number
+  // Keep a start time that clashes with another match of the same players
+  allowConflicts?: boolean
+}
+
+export interface GetScheduleData {
+  eventId: string
+  // Day (YYYY-MM-DD); today when omitted
+  date?: string
+}
+
+export interface GetStandingsData {
+  groupId: string
+}
+
+export interface GetRelayData {
+  eventId: string
+}
+
+export interface RecordRelayLegData {
+  registrationId: string
+  // Legs are run in registration_players.order; leg N is run by player N
+  legNumber: number
+  // null clears the latest recorded leg
+  score: number | null
+}
+
+export interface CreateTieData {
+  matchId: string
+  // One pairing per rubber, in playing order; defaults to pairing team
+  // members by registration_players.order
+  lineup?: { registration1PlayerId: string; registration2PlayerId: string }[]
+  version: number
 }
 
 export interface UpdateMatchData {
   matchId: string
   played?: boolean
   matchDate?: string
+  version: number
 }
 
@@ -4,6 +4,13 @@ import {
   RegistrationData,
   EventData,
   GroupData,
+  MatchStatus,
+  PositionScores,
+  HeatStatus,
+  RubberData,
+  Tiebreaker,
+  Placement,
+  PlayerData,
 } from './entities.types'
 
 export interface MatchScoreUpdatedData {
@@ -13,6 +20,7 @@ export interface MatchScoreUpdatedData {
   registration2Score: number
   setNumber: number
   played: boolean
+  version: number
 }
 
 export interface MatchUpdatedData {
@@ -20,6 +28,18 @@ export interface MatchUpdatedData {
   played?: boolean
   matchDate?: string
   winnerId?: string | null
+  status: MatchStatus
+  version: number
+}
+
+export interface MatchStatusChangedData {
+  matchId: string
+  status: MatchStatus
+  previousStatus: MatchStatus
+  changedAt: string
+  changedBy: string | null
+  reason: string | null
+  version: number
 }
 
 export interface MatchCompletedData {
@@ -27,18 +47,28 @@ export interface MatchCompletedData {
   winnerId: string
 }
 
+export interface MatchRevertedData {
+  matchId: string
+  previousWinnerId: string | null
+  // This match plus any auto-completed BYE matches reverted with it
+  revertedMatchIds: string[]
+}
+
 export interface SetCreatedData {
   matchId: string
   set: {
     id: string
     matchId: string
+    rubberId: string | null
     setNumber: number
     registration1Score: number
     registration2Score: number
     played: boolean
+    version: number
     createdAt: Date
     updatedAt: Date
   }
+  matchVersion: number
 }
 
 export interface SetPlayedData {
@@ -48,6 +78,149 @@ export interface SetPlayedData {
   winnerId?: string | null
 }
 
+export interface TieCreatedData {
+  matchId: string
+  rubbers: RubberData[]
+  matchVersion: number
+}
+
+export interface RubberCompletedData {
+  matchId: string
+  rubber: RubberData
+  matchCompleted: boolean
+  winnerId: string | null
+}
+
+export interface SetCorrectedData {
+  matchId: string
+  set: SetData
+  reason: string
+  correctedBy: string
+  previousWinnerId: string | null
+  winnerId: string | null
+  matchCompleted: boolean
+}
+
+export interface BracketFeederData {
+  matchId: string
+  // Whether the winner or the loser of the feeding match fills the slot
+  outcome: 'winner' | 'loser'
+  slot: number | null
+}
+
+export interface BracketNodeData {
+  matchId: string
+  round: number
+  roundLabel: string
+  bracketType: 'winners' | 'losers' | null
+  bracketPosition: number | null
+  matchNumber: number
+  registration1: RegistrationData | null
+  registration2: RegistrationData | null
+  // Group placing a knockout slot is filled from, e.g. 'A1'
+  registration1Source: string | null
+  registration2Source: string | null
+  winnerId: string | null
+  played: boolean
+  status: MatchStatus
+  winnerTo: string | null
+  winnerToSlot: number | null
+  loserTo: string | null
+  loserToSlot: number | null
+  feeders: BracketFeederData[]
+  version: number
+}
+
+export interface BracketRoundData {
+  label: string
+  round: number
+  bracketType: 'winners' | 'losers' | null
+  matches: BracketNodeData[]
+}
+
+export interface BracketData {
+  eventId: string
+  format: string
+  // The final, or the grand final of a double-elimination bracket
+  finalMatchId: string | null
+  // Second grand final, played only when the losers-bracket champion wins
+  // the first; cancelled otherwise
+  resetMatchId: string | null
+  thirdPlaceMatchId: string | null
+  rounds: BracketRoundData[]
+}
+
+export interface BracketUpdatedData {
+  eventId: string
+  // Current state of each match a result placed a registration into
+  matches: MatchDataResponse[]
+  // The same matches as bracket nodes, replacing those of the get-bracket tree
+  nodes: BracketNodeData[]
+}
+
+export interface ByesResolvedData {
+  eventId: string
+  // Matches completed as BYEs by the sweep, in the order they were completed
+  completedMatchIds: string[]
+  // null for the sweep run when the server starts
+  resolvedBy: string | null
+}
+
+export interface GroupStandingsEntryData {
+  // 1 = group leader
+  position: number
+  registrationId: string
+  points: number
+  matchesWon: number
+  matchesLost: number
+  setsWon: number
+  setsLost: number
+  setDifference: number
+  // Rally points over the played sets of group matches
+  pointsFor: number
+  pointsAgainst: number
+  pointDifference: number
+  // Tiebreak criterion that decided this position; null while still level
+  decidedBy: Tiebreaker | null
+  // Level with another registration after the whole tiebreak chain
+  tied: boolean
+  qualified: boolean
+  registration: RegistrationData | null
+}
+
+export interface GroupStandingsData {
+  eventId: string
+  groupId: string
+  groupName: string
+  completed: boolean
+  tiebreakers: Tiebreaker[]
+  standings: GroupStandingsEntryData[]
+}
+
+export interface GroupCompletedData {
+  eventId: string
+  groupId: string
+  groupName: string
+  standings: GroupStandingsEntryData[]
+}
+
+export interface QualifierData {
+  registrationId: string
+  groupPosition: number
+  // Group placing the knockout slot is filled from, e.g. 'A1'
+  source: string
+  // null when the bracket has no slot for this placing
+  knockoutMatchId: string | null
+  registration: RegistrationData | null
+}
+
+export interface QualifiersDeterminedData {
+  eventId: string
+  groupId: string
+  groupName: string
+  qualifiers: QualifierData[]
+}
+
 export interface MatchDataResponse {
   id: string
   eventId: string
@@ -58,10 +231,16 @@ export interface MatchDataResponse {
   registration2Id: string | null
   matchDate?: string | null
   played: boolean
+  status: MatchStatus
+  statusChangedAt: string | null
+  courtId: string | null
+  courtOrder: number | null
+  scheduledAt: string | null
   winnerId?: string | null
   bracketPosition?: number | null
   winnerTo?: string | null
   winnerToSlot?: number | null
+  version: number
   createdAt: string
   updatedAt: string
   sets: SetData[]
@@ -71,6 +250,320 @@ export interface MatchDataResponse {
   event: EventData | null
   group: GroupData | null
   isByeMatch: boolean
+  scorer: ScorerClaimData | null
+  // Team ties only; empty for regular matches
+  rubbers: RubberData[]
+}
+
+export interface ScorerClaimData {
+  // Socket ID of the scoring device; compare with the client's own socket.id
+  deviceId: string
+  userId: string
+  userName: string
+  claimedAt: string
+  expiresAt: string
+}
+
+export interface ScorerChangedData {
+  matchId: string
+  scorer: ScorerClaimData | null
+  previousScorerId: string | null
+  reason: 'claimed' | 'released' | 'expired' | 'forced' | 'disconnected'
+}
+
+export interface VersionConflictData {
+  message: string
+  entity: 'set' | 'match'
+  entityId: string
+  expectedVersion: number
+  currentVersion: number
+  // Current server state for the client to reconcile against
+  match: MatchDataResponse
+}
+
+export type ScoringActionType = 'set-score' | 'set-played' | 'set-created'
+
+export interface ScoringActionSummary {
+  type: ScoringActionType
+  setId: string
+  userId: string
+  createdAt: string
+}
+
+export interface ActionHistoryData {
+  matchId: string
+  action: ScoringActionSummary
+  match: MatchDataResponse
+  canUndo: boolean
+  canRedo: boolean
+}
+
+export interface PlayerPositionScoresData {
+  playerId: string
+  name: string
+  order: number
+  // Empty when the player has no positions assigned
+  positionScores: PositionScores
+  total: number
+}
+
+export interface RegistrationPositionScoresData {
+  registrationId: string
+  eventId: string
+  groupId: string | null
+  teamName: string | null
+  players: PlayerPositionScoresData[]
+  total: number
+  scoredPositions: number
+  totalPositions: number
+  // Every position of the event has a score
+  finished: boolean
+}
+
+export interface PositionScoresUpdatedData {
+  eventId: string
+  registration: RegistrationPositionScoresData
+  updatedBy: string
+}
+
+export interface EventPositionScoresData {
+  eventId: string
+  // Highest total first
+  registrations: RegistrationPositionScoresData[]
+}
+
+export interface HeatEntryData {
+  registrationId: string
+  lane: number
+  score: number | null
+  registration: RegistrationData | null
+}
+
+export interface HeatData {
+  id: string
+  eventId: string
+  heatNumber: number
+  status: HeatStatus
+  startedAt: string | null
+  finishedAt: string | null
+  entries: HeatEntryData[]
+}
+
+export interface HeatsGeneratedData {
+  eventId: string
+  heats: HeatData[]
+}
+
+export interface HeatUpdatedData {
+  heat: HeatData
+  updatedBy: string
+}
+
+export interface LeaderboardEntryData {
+  // null until the registration has a result
+  rank: number | null
+  // Shares its rank with another registration
+  tied: boolean
+  registrationId: string
+  heatId: string
+  heatNumber: number
+  score: number | null
+  registration: RegistrationData | null
+}
+
+export interface EventLeaderboardData {
+  eventId: string
+  entries: LeaderboardEntryData[]
+  finishedHeats: number
+  totalHeats: number
+  completed: boolean
+}
+
+export interface RelayLegData {
+  legNumber: number
+  playerId: string
+  name: string
+  // null until the leg is recorded
+  score: number | null
+  cumulativeScore: number | null
+}
+
+export interface RelayTeamData {
+  registrationId: string
+  eventId: string
+  teamName: string | null
+  legs: RelayLegData[]
+  total: number
+  completedLegs: number
+  totalLegs: number
+  // Every leg has been recorded
+  finished: boolean
+}
+
+export interface RelayStandingsEntryData extends RelayTeamData {
+  // null until the team has finished every leg
+  rank: number | null
+  tied: boolean
+}
+
+export interface RelayStandingsData {
+  eventId: string
+  teams: RelayStandingsEntryData[]
+  finishedTeams: number
+  totalTeams: number
+  completed: boolean
+}
+
+export interface RelayLegRecordedData {
+  eventId: string
+  team: RelayTeamData
+  updatedBy: string
+}
+
+export interface EventResultEntryData {
+  registrationId: string
+  placement: Placement
+  // Display name and rank of the matching placement tier, null without one
+  placementName: string | null
+  placementRank: number | null
+  // Ranking points awarded to each player of the registration
+  points: number
+  registration: RegistrationData | null
+}
+
+export interface EventResultsData {
+  eventId: string
+  completed: boolean
+  pointsSchemaId: string
+  // Best placement first; empty while the event is not completed
+  results: EventResultEntryData[]
+}
+
+export interface RankingResultData {
+  eventId: string
+  eventName: string
+  championshipId: string
+  championshipName: string
+  editionYear: number
+  placement: Placement
+  points: number
+  // One of the player's best results, which make up the ranking points
+  counted: boolean
+}
+
+export interface RankingEntryData {
+  // 1 = ranking leader; players level on points and total share a rank
+  rank: number
+  player: PlayerData
+  points: number
+  totalPoints: number
+  tied: boolean
+  results: RankingResultData[]
+}
+
+export interface RankingCategoryData {
+  eventType: string
+  gender: string
+  ageGroup: string
+  entries: RankingEntryData[]
+}
+
+export interface FederationRankingData {
+  federationId: string
+  bestResults: number
+  categories: RankingCategoryData[]
+}
+
+export interface RankingUpdatedData extends FederationRankingData {
+  // The event whose results changed the ranking
+  eventId: string
+}
+
+export interface CourtData {
+  id: string
+  eventId: string
+  name: string
+  date: string
+  // Match called to the court until it is decided; null while the court is free
+  nowPlaying: MatchDataResponse | null
+  // Matches waiting for the court, first up first
+  upNext: MatchDataResponse[]
+}
+
+export interface CourtsData {
+  eventId: string
+  date: string | null
+  courts: CourtData[]
+}
+
+export interface CourtDeletedData {
+  courtId: string
+  eventId: string
+  // Matches that were queued on the court and now have none
+  unassignedMatchIds: string[]
+}
+
+export interface ScheduleConflictData {
+  matchId: string
+  conflictingMatchId: string
+  // Players entered in both matches
+  playerIds: string[]
+  // overlap: the matches overlap; rest: less than the minimum rest between them
+  type: 'overlap' | 'rest'
+  // Minutes from the end of the earlier match to the start of the later one,
+  // negative when they overlap
+  gapMinutes: number
+  minRestMinutes: number
+}
+
+export interface ScheduledMatchData {
+  matchId: string
+  eventId: string
+  courtId: string | null
+  status: MatchStatus
+  scheduledAt: string
+  estimatedMinutes: number
+  estimatedEndAt: string
+  // Projected start after the delays of earlier matches; null once decided
+  expectedStartAt: string | null
+  delayMinutes: number
+}
+
+export interface ScheduleData {
+  eventId: string
+  date: string
+  matches: ScheduledMatchData[]
+  // Clashes of the event's matches with any match of the same players that day
+  conflicts: ScheduleConflictData[]
+}
+
+export interface MatchScheduledData {
+  matchId: string
+  scheduledAt: string | null
+  matchDate: string | null
+  estimatedEndAt: string | null
+  version: number
+  // Clashes kept with allowConflicts
+  conflicts: ScheduleConflictData[]
+  scheduledBy: string
+}
+
+export interface ScheduleConflictsData {
+  matchId: string
+  scheduledAt: string
+  conflicts: ScheduleConflictData[]
+}
+
+export interface ScheduleDelayedData {
+  eventId: string
+  date: string
+  // Matches whose projected start moved since the last update
+  delays: {
+    matchId: string
+    scheduledAt: string
+    expectedStartAt: string
+    delayMinutes: number
+  }[]
 }
 
 export interface ConnectSuccessData {
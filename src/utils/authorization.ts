@@ -168,6 +168,41 @@ export const checkEventUpdateAuthorization = async (
   return { authorized: true }
 }
 
+/**
+ * Check if user has authorization to administer events (e.g. correct results)
+ * Stricter than checkEventUpdateAuthorization: coaches are not allowed
+ * - Only system admins, org admins and org owners
+ * - Org admins/owners can only administer events from their own organization
+ */
+export const checkEventAdminAuthorization = async (
+  userData: UserData,
+  event: { organizationId: string | null }
+): Promise<{ authorized: boolean; error?: string }> => {
+  const context = await buildOrganizationContext(userData)
+  const { isSystemAdmin, organization, isAdmin, isOwner } = context
+
+  // System admin: can administer all events
+  if (isSystemAdmin) {
+    return { authorized: true }
+  }
+
+  if ((!isAdmin && !isOwner) || !organization?.id) {
+    return {
+      authorized: false,
+      error: 'Only system admins, club admins and club owners can perform this action',
+    }
+  }
+
+  if (event.organizationId !== organization.id) {
+    return {
+      authorized: false,
+      error: 'You can only manage events from your own organization',
+    }
+  }
+
+  return { authorized: true }
+}
+
 /**
  * Check if user has authorization to access a match
  * Matches inherit authorization from their parent event
@@ -0,0 +1,117 @@
+import type { Match } from '../db/schema'
+import {
+  isDoubleEliminationFormat,
+  findGrandFinal,
+  findBracketReset,
+} from './match-completion'
+
+export type BracketMatch = Pick<
+  Match,
+  'id' | 'round' | 'bracketType' | 'winnerTo' | 'loserTo'
+>
+
+export interface BracketLayout {
+  // Round label of every match, e.g. 'Final', 'Semi-final', 'Losers R2'
+  labels: Map<string, string>
+  // The final, or the grand final of a double-elimination bracket
+  finalMatchId: string | null
+  // Second grand final, played when the losers-bracket champion wins the first
+  resetMatchId: string | null
+  thirdPlaceMatchId: string | null
+}
+
+// Single-elimination rounds named by their distance from the final
+const KNOCKOUT_ROUND_NAMES = ['Final', 'Semi-final', 'Quarter-final']
+
+const getKnockoutRoundLabel = (roundsToFinal: number): string => {
+  return (
+    KNOCKOUT_ROUND_NAMES[roundsToFinal] ?? `Round of ${2 ** (roundsToFinal + 1)}`
+  )
+}
+
+/**
+ * Works out the final, the third-place match and the round label of every
+ * match of a bracket (matches without a group) from its routing: the final
+ * is the last match nothing advances out of, and in a double-elimination
+ * bracket the grand final is the match both brackets feed into, followed by
+ * its reset when there is one
+ */
+export const getBracketLayout = (
+  bracketMatches: BracketMatch[],
+  format: string
+): BracketLayout => {
+  const labels = new Map<string, string>()
+  const doubleElimination = isDoubleEliminationFormat(format)
+
+  const winnerFeeders = (match: BracketMatch) =>
+    bracketMatches.filter((m) => m.winnerTo === match.id)
+
+  const grandFinal = doubleElimination
+    ? findGrandFinal(bracketMatches)
+    : undefined
+  const reset = grandFinal
+    ? findBracketReset(bracketMatches, grandFinal)
+    : undefined
+
+  const endMatches = bracketMatches
+    .filter((m) => !m.winnerTo && m.id !== reset?.id)
+    .sort(
+      (a, b) =>
+        b.round - a.round || winnerFeeders(b).length - winnerFeeders(a).length
+    )
+  const final = grandFinal ?? endMatches[0]
+
+  // Any other match nothing advances out of is the third-place match
+  const thirdPlace = doubleElimination
+    ? undefined
+    : endMatches.find((m) => m.id !== final?.id)
+
+  if (final) {
+    labels.set(final.id, grandFinal ? 'Grand Final' : 'Final')
+  }
+  if (reset) {
+    labels.set(reset.id, 'Grand Final Reset')
+  }
+  if (thirdPlace) {
+    labels.set(thirdPlace.id, 'Third-place match')
+  }
+
+  const rest = bracketMatches.filter((m) => !labels.has(m.id))
+
+  for (const side of ['winners', 'losers'] as const) {
+    const sideMatches = rest.filter((m) =>
+      side === 'losers' ? m.bracketType === 'losers' : m.bracketType !== 'losers'
+    )
+    if (sideMatches.length === 0) continue
+
+    const rounds = sideMatches.map((m) => m.round)
+    const firstRound = Math.min(...rounds)
+    // Without a grand final the last winners round is the final itself
+    const lastRound =
+      doubleElimination || !final ? Math.max(...rounds) : final.round
+
+    for (const match of sideMatches) {
+      const roundsToLast = lastRound - match.round
+
+      if (!doubleElimination) {
+        labels.set(match.id, getKnockoutRoundLabel(roundsToLast))
+      } else if (roundsToLast === 0) {
+        labels.set(match.id, side === 'winners' ? 'Winners Final' : 'Losers Final')
+      } else if (side === 'winners' && roundsToLast === 1) {
+        labels.set(match.id, 'Winners Semi-final')
+      } else {
+        labels.set(
+          match.id,
+          `${side === 'winners' ? 'Winners' : 'Losers'} R${match.round - firstRound + 1}`
+        )
+      }
+    }
+  }
+
+  return {
+    labels,
+    finalMatchId: final?.id ?? null,
+    resetMatchId: reset?.id ?? null,
+    thirdPlaceMatchId: thirdPlace?.id ?? null,
+  }
+}
@@ -0,0 +1,73 @@
+import type { Event, Heat } from '../db/schema'
+import { DEFAULT_PLAYERS_PER_HEAT } from '../config/constants'
+
+export type HeatStatus = Heat['status']
+
+/**
+ * Legal heat transitions
+ * A finished heat can be reopened to correct a result
+ */
+export const HEAT_STATUS_TRANSITIONS: Record<HeatStatus, readonly HeatStatus[]> = {
+  pending: ['in-progress'],
+  'in-progress': ['pending', 'finished'],
+  finished: ['in-progress'],
+}
+
+export const isValidHeatStatus = (status: unknown): status is HeatStatus => {
+  return typeof status === 'string' && status in HEAT_STATUS_TRANSITIONS
+}
+
+export const canTransitionHeatStatus = (
+  from: HeatStatus,
+  to: HeatStatus
+): boolean => {
+  return HEAT_STATUS_TRANSITIONS[from].includes(to)
+}
+
+export const getPlayersPerHeat = (
+  event: Pick<Event, 'playersPerHeat'>
+): number => {
+  return event.playersPerHeat ?? DEFAULT_PLAYERS_PER_HEAT
+}
+
+/**
+ * Splits seeded registrations into the fewest heats of at most playersPerHeat,
+ * dealing them out in turn so heat sizes differ by at most one and the top
+ * seeds are spread across heats
+ */
+export const splitIntoHeats = <T>(items: T[], playersPerHeat: number): T[][] => {
+  const heatCount = Math.max(1, Math.ceil(items.length / playersPerHeat))
+  const result: T[][] = Array.from({ length: heatCount }, () => [])
+
+  items.forEach((item, index) => {
+    result[index % heatCount].push(item)
+  })
+
+  return result
+}
+
+/**
+ * Orders entries by score, highest first, using standard competition ranking:
+ * equal scores share a rank and the next rank is skipped (1, 2, 2, 4).
+ * Entries without a score are listed last with no rank
+ */
+export const rankByScore = <T extends { score: number | null }>(
+  entries: T[]
+): (T & { rank: number | null; tied: boolean })[] => {
+  const scored = entries
+    .filter((e): e is T & { score: number } => e.score !== null)
+    .sort((a, b) => b.score - a.score)
+  const unscored = entries.filter((e) => e.score === null)
+
+  const ranked = scored.map((entry) => {
+    const firstWithScore = scored.findIndex((e) => e.score === entry.score)
+    const sameScore = scored.filter((e) => e.score === entry.score).length
+
+    return { ...entry, rank: firstWithScore + 1, tied: sameScore > 1 }
+  })
+
+  return [
+    ...ranked,
+    ...unscored.map((entry) => ({ ...entry, rank: null, tied: false })),
+  ]
+}
@@ -1,8 +1,37 @@
 // Match Completion Utilities for Socket Server
 
-import { eq } from 'drizzle-orm'
-import { db } from '../config/db.config'
-import { matches, events, groups, registrations, sets } from '../db/schema'
+import { eq, and, asc, isNull, inArray } from 'drizzle-orm'
+import { db, DbExecutor, DbTransaction } from '../config/db.config'
+import { ERROR_MESSAGES } from '../config/constants'
+import {
+  matches,
+  events,
+  groups,
+  heats,
+  registrations,
+  sets,
+  Match,
+  Event,
+  Rubber,
+} from '../db/schema'
+import { nextVersion, VersionConflictError } from './versioning'
+import {
+  recordMatchStatusChange,
+  setMatchStatus,
+  MatchResult,
+} from './match-status'
+import {
+  getRubbersForMatch,
+  setRubberResult,
+  toRubberResults,
+} from '../services/rubber.service'
+import { getRelayStandings } from '../services/relay.service'
+import { countsTowardsResult } from '../services/set.service'
+import { syncEventResults } from '../services/placement.service'
+import {
+  syncGroupQualification,
+  isAwaitingQualifier,
+} from './qualification'
 
 export interface SetResult {
   registration1Score: number
@@ -22,6 +51,66 @@ export const isDoubleEliminationFormat = (format: string): boolean => {
   return format === 'double-elimination'
 }
 
+// Formats played (at least partly) as a bracket
+export const isBracketFormat = (format: string): boolean => {
+  return (
+    isSingleEliminationFormat(format) ||
+    isDoubleEliminationFormat(format) ||
+    format === 'groups-knockout'
+  )
+}
+
+// The knockout stage of a groups-knockout event is its bracket after the
+// groups; it is played like a single-elimination event
+export const isKnockoutStageMatch = (
+  format: string,
+  match: { groupId: string | null }
+): boolean => {
+  return format === 'groups-knockout' && match.groupId === null
+}
+
+export const isGroupStageMatch = (
+  format: string,
+  match: { groupId: string | null }
+): boolean => {
+  return isGroupsFormat(format) && !isKnockoutStageMatch(format, match)
+}
+
+export const isTestsFormat = (format: string): boolean => {
+  return format === 'tests'
+}
+
+export const isRelayEvent = (eventType: string): boolean => {
+  return eventType === 'relay'
+}
+
+type BracketLink = Pick<Match, 'id' | 'bracketType' | 'winnerTo'>
+
+/**
+ * The grand final of a double-elimination bracket: the match both the
+ * winners bracket and the losers bracket feed into
+ */
+export const findGrandFinal = <T extends BracketLink>(
+  bracketMatches: T[]
+): T | undefined => {
+  return bracketMatches.find((match) => {
+    const feeders = bracketMatches.filter((m) => m.winnerTo === match.id)
+
+    return (
+      feeders.some((f) => f.bracketType === 'losers') &&
+      feeders.some((f) => f.bracketType !== 'losers')
+    )
+  })
+}
+
+// The bracket reset is the match the grand final's winner advances into
+export const findBracketReset = <T extends BracketLink>(
+  bracketMatches: T[],
+  grandFinal: BracketLink
+): T | undefined => {
+  return bracketMatches.find((m) => m.id === grandFinal.winnerTo)
+}
+
 // Points calculation
 export const calculateMatchPoints = (
   winnerId: string,
@@ -66,6 +155,7 @@ export const calculateSetPoints = (setResults: SetResult[]) => {
 }
 
 // Update registration standings for groups format
+// direction -1 subtracts a previously applied result (used when reversing a match)
 export const updateRegistrationStandings = async (
   registration1Id: string,
   registration2Id: string,
@@ -80,47 +170,53 @@ export const updateRegistrationStandings = async (
     registration1SetsLost: number
     registration2SetsWon: number
     registration2SetsLost: number
-  }
+  },
+  direction: 1 | -1 = 1,
+  tx: DbExecutor = db
 ): Promise<void> => {
-  // Update registration 1
-  const reg1Result = await db
+  // Update registration 1 (row locked until the surrounding transaction ends)
+  const reg1Result = await tx
     .select()
     .from(registrations)
     .where(eq(registrations.id, registration1Id))
-    .limit(1)
+    .for('update')
 
   if (reg1Result.length > 0) {
     const reg1 = reg1Result[0]
-    await db
+    await tx
       .update(registrations)
       .set({
-        matchesWon: reg1.matchesWon + (matchResult.registration1Won ? 1 : 0),
-        matchesLost: reg1.matchesLost + (matchResult.registration1Won ? 0 : 1),
-        setsWon: reg1.setsWon + setResults.registration1SetsWon,
-        setsLost: reg1.setsLost + setResults.registration1SetsLost,
-        points: reg1.points + matchResult.registration1Points,
+        matchesWon:
+          reg1.matchesWon + direction * (matchResult.registration1Won ? 1 : 0),
+        matchesLost:
+          reg1.matchesLost + direction * (matchResult.registration1Won ? 0 : 1),
+        setsWon: reg1.setsWon + direction * setResults.registration1SetsWon,
+        setsLost: reg1.setsLost + direction * setResults.registration1SetsLost,
+        points: reg1.points + direction * matchResult.registration1Points,
         updatedAt: new Date(),
       })
       .where(eq(registrations.id, registration1Id))
   }
 
-  // Update registration 2
-  const reg2Result = await db
+  // Update registration 2 (row locked until the surrounding transaction ends)
+  const reg2Result = await tx
     .select()
     .from(registrations)
     .where(eq(registrations.id, registration2Id))
-    .limit(1)
+    .for('update')
 
   if (reg2Result.length > 0) {
     const reg2 = reg2Result[0]
-    await db
+    await tx
       .update(registrations)
       .set({
-        matchesWon: reg2.matchesWon + (matchResult.registration2Won ? 1 : 0),
-        matchesLost: reg2.matchesLost + (matchResult.registration2Won ? 0 : 1),
-        setsWon: reg2.setsWon + setResults.registration2SetsWon,
-        setsLost: reg2.setsLost + setResults.registration2SetsLost,
-        points: reg2.points + matchResult.registration2Points,
+        matchesWon:
+          reg2.matchesWon + direction * (matchResult.registration2Won ? 1 : 0),
+        matchesLost:
+          reg2.matchesLost + direction * (matchResult.registration2Won ? 0 : 1),
+        setsWon: reg2.setsWon + direction * setResults.registration2SetsWon,
+        setsLost: reg2.setsLost + direction * setResults.registration2SetsLost,
+        points: reg2.points + direction * matchResult.registration2Points,
         updatedAt: new Date(),
       })
       .where(eq(registrations.id, registration2Id))
@@ -131,60 +227,133 @@ export const updateRegistrationStandings = async (
 export const advanceWinnerToNextMatch = async (
   nextMatchId: string,
   slot: number,
-  winnerId: string
+  winnerId: string,
+  tx: DbExecutor = db
 ): Promise<void> => {
   const updateField = slot === 1 ? 'registration1Id' : 'registration2Id'
 
-  await db
+  await tx
     .update(matches)
     .set({
       [updateField]: winnerId,
+      version: nextVersion(matches.version),
       updatedAt: new Date(),
     })
     .where(eq(matches.id, nextMatchId))
 }
 
+// Remove a registration from a slot it was previously advanced into
+export const removeRegistrationFromMatch = async (
+  matchId: string,
+  slot: number,
+  registrationId: string,
+  tx: DbExecutor = db
+): Promise<void> => {
+  const slotColumn =
+    slot === 1 ? matches.registration1Id : matches.registration2Id
+  const updateField = slot === 1 ? 'registration1Id' : 'registration2Id'
+
+  await tx
+    .update(matches)
+    .set({
+      [updateField]: null,
+      version: nextVersion(matches.version),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(matches.id, matchId), eq(slotColumn, registrationId)))
+}
+
 // Update group completion status
+// A cancelled match has no result to wait for
 export const updateGroupCompletionStatus = async (
-  groupId: string
+  groupId: string,
+  tx: DbExecutor = db
 ): Promise<void> => {
-  const groupMatches = await db
+  const groupMatches = await tx
     .select()
     .from(matches)
     .where(eq(matches.groupId, groupId))
 
-  const allMatchesPlayed = groupMatches.every((m) => m.played)
+  const allMatchesPlayed = groupMatches.every(
+    (m) => m.played || m.status === 'cancelled'
+  )
 
-  await db
+  await tx
     .update(groups)
     .set({ completed: allMatchesPlayed, updatedAt: new Date() })
     .where(eq(groups.id, groupId))
 }
 
 // Update event completion status
+// Relay events are complete once every team has run all its legs,
+// tests-format events once every heat is finished; all other formats once
+// every match that was not cancelled is played. Relay and match events also
+// get their results rebuilt
 export const updateEventCompletedStatus = async (
-  eventId: string
+  eventId: string,
+  tx: DbExecutor = db
 ): Promise<void> => {
-  const allMatches = await db
+  const eventResult = await tx
+    .select({ format: events.format, eventType: events.eventType })
+    .from(events)
+    .where(eq(events.id, eventId))
+    .limit(1)
+
+  if (eventResult.length > 0 && isRelayEvent(eventResult[0].eventType)) {
+    const { completed } = await getRelayStandings(eventId, tx)
+
+    await tx
+      .update(events)
+      .set({ completed, updatedAt: new Date() })
+      .where(eq(events.id, eventId))
+    await syncEventResults(eventId, tx)
+    return
+  }
+
+  if (eventResult.length > 0 && isTestsFormat(eventResult[0].format)) {
+    const eventHeats = await tx
+      .select({ status: heats.status })
+      .from(heats)
+      .where(eq(heats.eventId, eventId))
+
+    const completed =
+      eventHeats.length > 0 && eventHeats.every((h) => h.status === 'finished')
+
+    await tx
+      .update(events)
+      .set({ completed, updatedAt: new Date() })
+      .where(eq(events.id, eventId))
+    return
+  }
+
+  const allMatches = await tx
     .select()
     .from(matches)
     .where(eq(matches.eventId, eventId))
 
   if (allMatches.length === 0) {
-    await db
+    await tx
       .update(events)
       .set({ completed: false, updatedAt: new Date() })
       .where(eq(events.id, eventId))
+    await syncEventResults(eventId, tx)
     return
   }
 
-  const hasUnplayedMatches = allMatches.some((m) => !m.played)
+  // Cancelled matches, such as a bracket reset that was not needed, do not
+  // hold up the event
+  const hasUnplayedMatches = allMatches.some(
+    (m) => !m.played && m.status !== 'cancelled'
+  )
   const completed = !hasUnplayedMatches
 
-  await db
+  await tx
     .update(events)
     .set({ completed, updatedAt: new Date() })
     .where(eq(events.id, eventId))
+
+  // Placements and ranking points follow the outcome
+  await syncEventResults(eventId, tx)
 }
 
 // Handle groups format match completion
@@ -198,7 +367,8 @@ export const handleGroupsMatchCompletion = async (
   },
   event: { pointsPerWin: number; pointsPerLoss: number },
   winnerId: string,
-  playedSets: SetResult[]
+  playedSets: SetResult[],
+  tx: DbExecutor = db
 ): Promise<void> => {
   if (!match.registration1Id || !match.registration2Id) {
     return
@@ -218,52 +388,185 @@ export const handleGroupsMatchCompletion = async (
     match.registration1Id,
     match.registration2Id,
     matchPoints,
-    setResults
+    setResults,
+    1,
+    tx
+  )
+}
+
+/**
+ * Where the loser of a single-elimination match goes: its loserTo slot, or
+ * for a semi-final of an event with a third-place match, that match.
+ * Brackets that do not link the semi-finals to the third-place match get
+ * the link on first use, so BYE detection and reversal follow the route too.
+ * The link is not part of the match data clients see, so versions are kept
+ */
+export const getThirdPlaceRoute = async (
+  match: Pick<Match, 'id' | 'eventId' | 'winnerTo' | 'loserTo' | 'loserToSlot'>,
+  event: Pick<Event, 'hasThirdPlaceMatch'>,
+  tx: DbExecutor = db
+): Promise<{ matchId: string; slot: number } | null> => {
+  if (match.loserTo && match.loserToSlot) {
+    return { matchId: match.loserTo, slot: match.loserToSlot }
+  }
+
+  if (!event.hasThirdPlaceMatch || !match.winnerTo) {
+    return null
+  }
+
+  const bracketMatches = await tx
+    .select()
+    .from(matches)
+    .where(and(eq(matches.eventId, match.eventId), isNull(matches.groupId)))
+    .orderBy(asc(matches.matchNumber))
+
+  const final = bracketMatches.find((m) => m.id === match.winnerTo)
+
+  // Only semi-finals, which feed the final, send their loser on
+  if (!final || final.winnerTo) {
+    return null
+  }
+
+  const thirdPlaceMatch = bracketMatches.find(
+    (m) =>
+      m.id !== final.id &&
+      !m.winnerTo &&
+      !bracketMatches.some((feeder) => feeder.winnerTo === m.id)
   )
+
+  if (!thirdPlaceMatch) {
+    return null
+  }
+
+  const semiFinals = bracketMatches.filter((m) => m.winnerTo === final.id)
+  let route: { matchId: string; slot: number } | null = null
+
+  for (const [index, semiFinal] of semiFinals.entries()) {
+    const slot = semiFinal.winnerToSlot ?? index + 1
+
+    if (!semiFinal.loserTo) {
+      await tx
+        .update(matches)
+        .set({ loserTo: thirdPlaceMatch.id, loserToSlot: slot })
+        .where(eq(matches.id, semiFinal.id))
+    }
+
+    if (semiFinal.id === match.id) {
+      route = { matchId: thirdPlaceMatch.id, slot }
+    }
+  }
+
+  return route
 }
 
-// Handle single elimination match completion
+/**
+ * Handle single elimination match completion, also used for the knockout
+ * stage of groups-knockout events. Advances the winner, sends a semi-final
+ * loser to the third-place match and completes the BYEs this leaves
+ *
+ * @returns IDs of the matches a registration was placed into
+ */
 export const handleSingleEliminationMatchCompletion = async (
-  match: {
-    winnerTo: string | null
-    winnerToSlot: number | null
-  },
-  winnerId: string
-): Promise<void> => {
+  match: Pick<
+    Match,
+    | 'id'
+    | 'eventId'
+    | 'registration1Id'
+    | 'registration2Id'
+    | 'winnerTo'
+    | 'winnerToSlot'
+    | 'loserTo'
+    | 'loserToSlot'
+  >,
+  event: Pick<Event, 'hasThirdPlaceMatch'>,
+  winnerId: string,
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  const routedMatchIds: string[] = []
+
   if (match.winnerTo && match.winnerToSlot && winnerId) {
-    await advanceWinnerToNextMatch(match.winnerTo, match.winnerToSlot, winnerId)
+    await advanceWinnerToNextMatch(
+      match.winnerTo,
+      match.winnerToSlot,
+      winnerId,
+      tx
+    )
+    routedMatchIds.push(match.winnerTo)
+  }
+
+  const thirdPlaceRoute = await getThirdPlaceRoute(match, event, tx)
+
+  if (thirdPlaceRoute) {
+    const loserId =
+      winnerId === match.registration1Id
+        ? match.registration2Id
+        : match.registration1Id
+
+    // A semi-final won on a BYE has no loser to send on
+    if (loserId) {
+      await advanceWinnerToNextMatch(
+        thirdPlaceRoute.matchId,
+        thirdPlaceRoute.slot,
+        loserId,
+        tx
+      )
+    }
+
+    // With one semi-final decided on a BYE, the third-place match is
+    // itself a BYE once the other loser arrives
+    routedMatchIds.push(
+      thirdPlaceRoute.matchId,
+      ...(await checkAndAutoAdvanceBye(
+        thirdPlaceRoute.matchId,
+        match.eventId,
+        tx
+      ))
+    )
   }
+
+  // The next match is itself a BYE when its other side can no longer be filled
+  if (match.winnerTo) {
+    routedMatchIds.push(
+      ...(await checkAndAutoAdvanceBye(match.winnerTo, match.eventId, tx))
+    )
+  }
+
+  return routedMatchIds
 }
 
 /**
  * Checks if a match is effectively a BYE (one player, no pending feeders)
  * and auto-advances the player, cascading through subsequent BYE matches
+ *
+ * @returns IDs of the BYE matches completed and of the matches their
+ * players were advanced into
  */
 export const checkAndAutoAdvanceBye = async (
   matchId: string,
-  eventId: string
-): Promise<void> => {
+  eventId: string,
+  tx: DbExecutor = db
+): Promise<string[]> => {
   // Fetch the match
-  const matchResult = await db
+  const matchResult = await tx
     .select()
     .from(matches)
     .where(eq(matches.id, matchId))
     .limit(1)
 
-  if (matchResult.length === 0) return
+  if (matchResult.length === 0) return []
   const match = matchResult[0]
 
-  if (match.played) return
+  if (match.played) return []
 
   // Check if exactly one registration exists
   const hasReg1 = match.registration1Id !== null
   const hasReg2 = match.registration2Id !== null
-  if (hasReg1 === hasReg2) return // Either both or neither - not a BYE
+  if (hasReg1 === hasReg2) return [] // Either both or neither - not a BYE
 
   const soloRegistrationId = match.registration1Id || match.registration2Id
 
   // Check if any unplayed match can feed into this match
-  const eventMatches = await db
+  const eventMatches = await tx
     .select()
     .from(matches)
     .where(eq(matches.eventId, eventId))
@@ -272,27 +575,201 @@ export const checkAndAutoAdvanceBye = async (
     (m) => !m.played && (m.winnerTo === matchId || m.loserTo === matchId)
   )
 
-  if (hasPendingFeeder) return // Someone else might arrive
+  if (hasPendingFeeder) return [] // Someone else might arrive
+
+  const eventResult = await tx
+    .select()
+    .from(events)
+    .where(eq(events.id, eventId))
+    .limit(1)
+
+  // Knockout slots filled from group placings wait for their group
+  if (
+    eventResult.length > 0 &&
+    (await isAwaitingQualifier(matchId, eventResult[0], tx))
+  ) {
+    return []
+  }
 
   // This is a BYE - auto-complete the match
-  await db
+  await tx
     .update(matches)
     .set({
       winnerId: soloRegistrationId,
       played: true,
+      status: 'completed',
+      statusChangedAt: new Date(),
+      version: nextVersion(matches.version),
       updatedAt: new Date(),
     })
     .where(eq(matches.id, matchId))
 
+  await recordMatchStatusChange(
+    matchId,
+    match.status,
+    'completed',
+    null,
+    'BYE',
+    tx
+  )
+
+  const changedMatchIds = [matchId]
+
   // Advance winner to next match
   if (match.winnerTo && match.winnerToSlot && soloRegistrationId) {
     await advanceWinnerToNextMatch(
       match.winnerTo,
       match.winnerToSlot,
-      soloRegistrationId
+      soloRegistrationId,
+      tx
     )
+    changedMatchIds.push(match.winnerTo)
+
     // Recursively check the next match
-    await checkAndAutoAdvanceBye(match.winnerTo, eventId)
+    changedMatchIds.push(
+      ...(await checkAndAutoAdvanceBye(match.winnerTo, eventId, tx))
+    )
+  }
+
+  return changedMatchIds
+}
+
+/**
+ * Completes the grand final of a double-elimination bracket. A win for the
+ * winners-bracket champion decides the event and cancels a bracket reset
+ * that exists. A win for the losers-bracket champion hands both finalists
+ * their first loss, so they meet again in the reset match, which is
+ * created behind the grand final when the bracket has none
+ *
+ * @returns IDs of the matches that changed (the reset and, when it was
+ * created, the grand final that now links to it)
+ */
+const handleGrandFinalCompletion = async (
+  grandFinal: Match,
+  bracketMatches: Match[],
+  winnerId: string,
+  tx: DbExecutor
+): Promise<string[]> => {
+  const winnersFinal = bracketMatches.find(
+    (m) => m.winnerTo === grandFinal.id && m.bracketType !== 'losers'
+  )
+  const winnersChampionId =
+    winnersFinal?.winnerToSlot === 2
+      ? grandFinal.registration2Id
+      : grandFinal.registration1Id
+
+  let reset = findBracketReset(bracketMatches, grandFinal)
+
+  if (winnerId === winnersChampionId) {
+    if (!reset || reset.played || reset.status === 'cancelled') return []
+
+    await setMatchStatus(reset, 'cancelled', null, 'Bracket reset not needed', tx)
+    return [reset.id]
+  }
+
+  const changedMatchIds: string[] = []
+
+  if (!reset) {
+    const created = await tx
+      .insert(matches)
+      .values({
+        eventId: grandFinal.eventId,
+        round: grandFinal.round + 1,
+        matchNumber: Math.max(...bracketMatches.map((m) => m.matchNumber)) + 1,
+        bracketType: grandFinal.bracketType,
+      })
+      .returning()
+    reset = created[0]
+    changedMatchIds.push(grandFinal.id)
+  } else if (reset.status === 'cancelled') {
+    await setMatchStatus(reset, 'scheduled', null, 'Bracket reset', tx)
+  }
+
+  const winnerSlot = grandFinal.winnerToSlot ?? 1
+  const loserSlot = winnerSlot === 1 ? 2 : 1
+
+  // Both finalists are routed into the reset, so reversing the grand final
+  // pulls them back out like any other bracket match
+  if (
+    grandFinal.winnerTo !== reset.id ||
+    grandFinal.winnerToSlot !== winnerSlot ||
+    grandFinal.loserTo !== reset.id ||
+    grandFinal.loserToSlot !== loserSlot
+  ) {
+    await tx
+      .update(matches)
+      .set({
+        winnerTo: reset.id,
+        winnerToSlot: winnerSlot,
+        loserTo: reset.id,
+        loserToSlot: loserSlot,
+        version: nextVersion(matches.version),
+        updatedAt: new Date(),
+      })
+      .where(eq(matches.id, grandFinal.id))
+  }
+
+  const loserId =
+    winnerId === grandFinal.registration1Id
+      ? grandFinal.registration2Id
+      : grandFinal.registration1Id
+
+  await advanceWinnerToNextMatch(reset.id, winnerSlot, winnerId, tx)
+  if (loserId) {
+    await advanceWinnerToNextMatch(reset.id, loserSlot, loserId, tx)
+  }
+
+  changedMatchIds.push(reset.id)
+  return changedMatchIds
+}
+
+/**
+ * Completes every BYE of an event's bracket that is still waiting: an
+ * unplayed match with one registration whose other slot can no longer be
+ * filled. Repairs brackets whose BYEs were not advanced when they arose
+ *
+ * @returns IDs of the matches completed as BYEs, and of every match that
+ * changed (those and the matches their players were advanced into)
+ */
+export const resolvePendingByes = async (
+  eventId: string,
+  tx: DbExecutor = db
+): Promise<{ completedMatchIds: string[]; changedMatchIds: string[] }> => {
+  const pendingMatches = await tx
+    .select({ id: matches.id })
+    .from(matches)
+    .where(
+      and(
+        eq(matches.eventId, eventId),
+        isNull(matches.groupId),
+        eq(matches.played, false)
+      )
+    )
+    .orderBy(asc(matches.round), asc(matches.matchNumber))
+
+  const changedMatchIds: string[] = []
+
+  // Matches completed earlier in the cascade are skipped by the check itself
+  for (const pending of pendingMatches) {
+    changedMatchIds.push(
+      ...(await checkAndAutoAdvanceBye(pending.id, eventId, tx))
+    )
+  }
+
+  if (changedMatchIds.length === 0) {
+    return { completedMatchIds: [], changedMatchIds }
+  }
+
+  await updateEventCompletedStatus(eventId, tx)
+
+  const completed = await tx
+    .select({ id: matches.id })
+    .from(matches)
+    .where(and(inArray(matches.id, changedMatchIds), eq(matches.played, true)))
+
+  return {
+    completedMatchIds: completed.map((m) => m.id),
+    changedMatchIds,
   }
 }
 
@@ -311,11 +788,31 @@ export const handleDoubleEliminationMatchCompletion = async (
     loserTo: string | null
     loserToSlot: number | null
   },
-  winnerId: string
-): Promise<void> => {
+  winnerId: string,
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  const bracketMatches = await tx
+    .select()
+    .from(matches)
+    .where(eq(matches.eventId, match.eventId))
+
+  const grandFinal = findGrandFinal(bracketMatches)
+
+  if (grandFinal?.id === match.id) {
+    return handleGrandFinalCompletion(grandFinal, bracketMatches, winnerId, tx)
+  }
+
+  const routedMatchIds: string[] = []
+
   // Advance winner
   if (match.winnerTo && match.winnerToSlot && winnerId) {
-    await advanceWinnerToNextMatch(match.winnerTo, match.winnerToSlot, winnerId)
+    await advanceWinnerToNextMatch(
+      match.winnerTo,
+      match.winnerToSlot,
+      winnerId,
+      tx
+    )
+    routedMatchIds.push(match.winnerTo)
   }
 
   // Route loser to losers bracket
@@ -327,19 +824,30 @@ export const handleDoubleEliminationMatchCompletion = async (
   if (loserId && match.loserTo && match.loserToSlot) {
     const updateField =
       match.loserToSlot === 1 ? 'registration1Id' : 'registration2Id'
-    await db
+    await tx
       .update(matches)
-      .set({ [updateField]: loserId, updatedAt: new Date() })
+      .set({
+        [updateField]: loserId,
+        version: nextVersion(matches.version),
+        updatedAt: new Date(),
+      })
       .where(eq(matches.id, match.loserTo))
+    routedMatchIds.push(match.loserTo)
 
     // Check if loser's destination is now a BYE
-    await checkAndAutoAdvanceBye(match.loserTo, match.eventId)
+    routedMatchIds.push(
+      ...(await checkAndAutoAdvanceBye(match.loserTo, match.eventId, tx))
+    )
   }
 
   // Check if winner's destination is now a BYE
   if (match.winnerTo) {
-    await checkAndAutoAdvanceBye(match.winnerTo, match.eventId)
+    routedMatchIds.push(
+      ...(await checkAndAutoAdvanceBye(match.winnerTo, match.eventId, tx))
+    )
   }
+
+  return routedMatchIds
 }
 
 // Check majority and determine winner
@@ -372,3 +880,548 @@ export const checkMajorityAndGetWinner = (
   return { winnerId: null, completed: false }
 }
 
+/**
+ * Recomputes a team tie rubber's result from its played sets: the rubber is
+ * won once a side has a majority of event.bestOf sets, and reopened when
+ * that no longer holds
+ */
+export const syncRubberResult = async (
+  rubberId: string,
+  match: Pick<Match, 'registration1Id' | 'registration2Id'>,
+  event: Pick<Event, 'bestOf'>,
+  tx: DbExecutor = db
+): Promise<Rubber> => {
+  const rubberSets = await tx
+    .select()
+    .from(sets)
+    .where(eq(sets.rubberId, rubberId))
+
+  const outcome = checkMajorityAndGetWinner(
+    rubberSets.filter(countsTowardsResult),
+    event.bestOf,
+    match
+  )
+
+  return setRubberResult(
+    rubberId,
+    outcome.completed ? outcome.winnerId : null,
+    tx
+  )
+}
+
+/**
+ * Completes a match with the given winner and applies the format-specific
+ * side effects: standings, bracket advancement, group and event completion.
+ * The result status tells a scored completion apart from a walkover or retirement.
+ *
+ * @returns IDs of the bracket matches the winner or loser was placed into
+ */
+export const completeMatch = async (
+  match: Match,
+  event: Event,
+  winnerId: string,
+  playedSets: SetResult[],
+  result: MatchResult,
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  let routedMatchIds: string[] = []
+
+  await tx
+    .update(matches)
+    .set({
+      played: true,
+      winnerId,
+      status: result.status,
+      statusChangedAt: new Date(),
+      version: nextVersion(matches.version),
+      updatedAt: new Date(),
+    })
+    .where(eq(matches.id, match.id))
+
+  await recordMatchStatusChange(
+    match.id,
+    match.status,
+    result.status,
+    result.changedBy ?? null,
+    result.reason ?? null,
+    tx
+  )
+
+  if (isGroupStageMatch(event.format, match)) {
+    await handleGroupsMatchCompletion(match, event, winnerId, playedSets, tx)
+  } else if (
+    isSingleEliminationFormat(event.format) ||
+    isKnockoutStageMatch(event.format, match)
+  ) {
+    routedMatchIds = await handleSingleEliminationMatchCompletion(
+      match,
+      event,
+      winnerId,
+      tx
+    )
+  } else if (isDoubleEliminationFormat(event.format)) {
+    routedMatchIds = await handleDoubleEliminationMatchCompletion(
+      match,
+      winnerId,
+      tx
+    )
+  }
+
+  return [...routedMatchIds, ...(await updateStageCompletion(match, event, tx))]
+}
+
+/**
+ * Re-checks whether the group and event of a match are complete, after the
+ * match was decided or cancelled, or a cancelled match was rescheduled. A
+ * group of a groups-knockout event also re-seeds its qualifiers
+ *
+ * @returns IDs of the knockout matches the qualifiers were placed into
+ */
+export const updateStageCompletion = async (
+  match: Pick<Match, 'eventId' | 'groupId'>,
+  event: Event,
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  let routedMatchIds: string[] = []
+
+  if (match.groupId) {
+    await updateGroupCompletionStatus(match.groupId, tx)
+
+    if (event.format === 'groups-knockout') {
+      routedMatchIds = await syncGroupQualification(match.groupId, event, tx)
+    }
+  }
+
+  await updateEventCompletedStatus(match.eventId, tx)
+
+  return routedMatchIds
+}
+
+/**
+ * Locks a match row until the surrounding transaction ends and returns it
+ * Concurrent completions or reversals of the same match serialize on this lock
+ */
+export const lockMatch = async (
+  matchId: string,
+  tx: DbTransaction
+): Promise<Match | null> => {
+  const result = await tx
+    .select()
+    .from(matches)
+    .where(eq(matches.id, matchId))
+    .for('update')
+
+  return result.length > 0 ? result[0] : null
+}
+
+/**
+ * Marks a set as played and completes the match when a majority is reached.
+ * The whole pipeline (set, match, standings, bracket, BYE cascade, group and
+ * event completion) runs in one transaction holding row locks on the match
+ * and set, so a failure leaves nothing half-applied and two concurrent calls
+ * cannot both complete the match. Callers broadcast only after it resolves.
+ * When expectedVersion is given, a stale set version throws VersionConflictError.
+ */
+export const markSetPlayedAndCheckCompletion = async (
+  setId: string,
+  event: Event,
+  expectedVersion?: number
+): Promise<{
+  set: typeof sets.$inferSelect
+  matchCompleted: boolean
+  winnerId: string | null
+  previousStatus: Match['status']
+  // The set's rubber after the set was played (team ties only)
+  rubber: Rubber | null
+  // Bracket matches the winner or loser was placed into
+  routedMatchIds: string[]
+}> => {
+  return db.transaction(async (tx) => {
+    const setResult = await tx
+      .select({ matchId: sets.matchId })
+      .from(sets)
+      .where(eq(sets.id, setId))
+      .limit(1)
+
+    if (setResult.length === 0) {
+      throw new Error(ERROR_MESSAGES.SET_NOT_FOUND)
+    }
+
+    const match = await lockMatch(setResult[0].matchId, tx)
+
+    if (!match) {
+      throw new Error(ERROR_MESSAGES.MATCH_NOT_FOUND)
+    }
+
+    const lockedSet = await tx
+      .select()
+      .from(sets)
+      .where(eq(sets.id, setId))
+      .for('update')
+
+    // Re-checked under the lock: another call may have got here first
+    if (lockedSet.length === 0 || lockedSet[0].played) {
+      throw new Error(ERROR_MESSAGES.SET_ALREADY_PLAYED)
+    }
+
+    if (
+      expectedVersion !== undefined &&
+      lockedSet[0].version !== expectedVersion
+    ) {
+      throw new VersionConflictError(
+        'set',
+        setId,
+        match.id,
+        expectedVersion,
+        lockedSet[0].version
+      )
+    }
+
+    if (match.played) {
+      throw new Error(ERROR_MESSAGES.MATCH_ALREADY_PLAYED)
+    }
+
+    // Only a match being played can be completed by its sets
+    if (match.status !== 'in-progress') {
+      throw new Error(ERROR_MESSAGES.MATCH_NOT_IN_PROGRESS)
+    }
+
+    const updatedSet = await tx
+      .update(sets)
+      .set({
+        played: true,
+        version: nextVersion(sets.version),
+        updatedAt: new Date(),
+      })
+      .where(eq(sets.id, setId))
+      .returning()
+
+    const allSets = await tx
+      .select()
+      .from(sets)
+      .where(eq(sets.matchId, match.id))
+      .orderBy(asc(sets.setNumber))
+
+    let decidingSets: SetResult[] = allSets
+      .filter(countsTowardsResult)
+      .map((s) => ({
+        registration1Score: s.registration1Score,
+        registration2Score: s.registration2Score,
+      }))
+    let bestOf = event.bestOf
+    let rubber: Rubber | null = null
+
+    // In a team tie the set decides its rubber, and the rubbers decide the match
+    if (updatedSet[0].rubberId) {
+      rubber = await syncRubberResult(updatedSet[0].rubberId, match, event, tx)
+
+      const tieRubbers = await getRubbersForMatch(match.id, tx)
+      decidingSets = toRubberResults(tieRubbers, match)
+      bestOf = tieRubbers.length
+    }
+
+    const majorityResult = checkMajorityAndGetWinner(
+      decidingSets,
+      bestOf,
+      match
+    )
+
+    if (!majorityResult.completed || !majorityResult.winnerId) {
+      return {
+        set: updatedSet[0],
+        matchCompleted: false,
+        winnerId: null,
+        previousStatus: match.status,
+        rubber,
+        routedMatchIds: [],
+      }
+    }
+
+    const routedMatchIds = await completeMatch(
+      match,
+      event,
+      majorityResult.winnerId,
+      decidingSets,
+      { status: 'completed' },
+      tx
+    )
+
+    return {
+      set: updatedSet[0],
+      matchCompleted: true,
+      winnerId: majorityResult.winnerId,
+      previousStatus: match.status,
+      rubber,
+      routedMatchIds,
+    }
+  })
+}
+
+/**
+ * A BYE match completed by checkAndAutoAdvanceBye: played, one empty slot, no sets
+ */
+export const isAutoCompletedBye = async (
+  match: Match,
+  tx: DbExecutor = db
+): Promise<boolean> => {
+  if (!match.played) return false
+  if (match.registration1Id !== null && match.registration2Id !== null) {
+    return false
+  }
+
+  const matchSets = await tx
+    .select({ id: sets.id })
+    .from(sets)
+    .where(eq(sets.matchId, match.id))
+    .limit(1)
+
+  return matchSets.length === 0
+}
+
+const getMatchRecord = async (
+  matchId: string,
+  tx: DbExecutor = db
+): Promise<Match | null> => {
+  const result = await tx
+    .select()
+    .from(matches)
+    .where(eq(matches.id, matchId))
+    .limit(1)
+
+  return result.length > 0 ? result[0] : null
+}
+
+/**
+ * Whether a match has started: played, with sets, or past `scheduled`
+ * (called to court, warming up, in progress...). A cancelled match has not
+ * started: nothing was played in it, e.g. a bracket reset skipped by the
+ * grand final
+ */
+export const hasMatchStarted = async (
+  match: Match,
+  tx: DbExecutor = db
+): Promise<boolean> => {
+  if (match.played) return true
+  if (match.status !== 'scheduled' && match.status !== 'cancelled') return true
+
+  const matchSets = await tx
+    .select({ id: sets.id })
+    .from(sets)
+    .where(eq(sets.matchId, match.id))
+    .limit(1)
+
+  return matchSets.length > 0
+}
+
+/**
+ * Returns the downstream matches (winnerTo / loserTo) of a match that have
+ * already started (hasMatchStarted). Auto-completed BYE matches are not considered started (they are reversed
+ * along with the match), but their own downstream matches are checked.
+ */
+export const getStartedDownstreamMatches = async (
+  match: Pick<Match, 'winnerTo' | 'loserTo'>,
+  tx: DbExecutor = db
+): Promise<Match[]> => {
+  const downstreamIds = [match.winnerTo, match.loserTo].filter(
+    (id): id is string => !!id
+  )
+  const started: Match[] = []
+
+  for (const downstreamId of downstreamIds) {
+    const downstream = await getMatchRecord(downstreamId, tx)
+    if (!downstream) continue
+
+    if (await isAutoCompletedBye(downstream, tx)) {
+      started.push(...(await getStartedDownstreamMatches(downstream, tx)))
+      continue
+    }
+
+    if (await hasMatchStarted(downstream, tx)) {
+      started.push(downstream)
+    }
+  }
+
+  return started
+}
+
+/**
+ * Pulls a registration back out of a downstream slot, first reversing the
+ * downstream match if it was auto-completed as a BYE with that registration
+ */
+const pullRegistrationFromDownstream = async (
+  downstreamId: string,
+  slot: number,
+  registrationId: string,
+  event: Event,
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  const revertedMatchIds: string[] = []
+  const downstream = await getMatchRecord(downstreamId, tx)
+  if (!downstream) return revertedMatchIds
+
+  if (
+    (await isAutoCompletedBye(downstream, tx)) &&
+    downstream.winnerId === registrationId
+  ) {
+    revertedMatchIds.push(
+      ...(await reverseMatchCompletion(downstream, event, [], tx))
+    )
+  }
+
+  await removeRegistrationFromMatch(downstreamId, slot, registrationId, tx)
+
+  return revertedMatchIds
+}
+
+/**
+ * Reverses what completeMatch did for a completed match:
+ * subtracts group standings, pulls the winner (and loser) back out of the
+ * downstream matches, cascading through auto-completed BYEs, and recomputes
+ * group and event completion.
+ * Callers must check getStartedDownstreamMatches first.
+ *
+ * @returns IDs of every match that was reverted, starting with this one
+ */
+export const reverseMatchCompletion = async (
+  match: Match,
+  event: Event,
+  playedSets: SetResult[],
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  const winnerId = match.winnerId
+  const revertedMatchIds = [match.id]
+
+  // Sets added or closed by a walkover/retirement rule are undone: awarded
+  // sets are removed and the set that was interrupted is open again
+  if (match.status === 'walkover' || match.status === 'retired') {
+    await tx
+      .delete(sets)
+      .where(and(eq(sets.matchId, match.id), eq(sets.resultType, 'awarded')))
+
+    await tx
+      .update(sets)
+      .set({
+        played: false,
+        resultType: 'played',
+        version: nextVersion(sets.version),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(sets.matchId, match.id), eq(sets.resultType, 'retired')))
+  }
+
+  // A match that was being played goes back to in progress; a walkover or an
+  // auto-completed BYE is waiting for its opponent again
+  const reopenedStatus =
+    match.status !== 'walkover' && playedSets.length > 0
+      ? 'in-progress'
+      : 'scheduled'
+
+  await tx
+    .update(matches)
+    .set({
+      played: false,
+      winnerId: null,
+      status: reopenedStatus,
+      statusChangedAt: new Date(),
+      version: nextVersion(matches.version),
+      updatedAt: new Date(),
+    })
+    .where(eq(matches.id, match.id))
+
+  await recordMatchStatusChange(
+    match.id,
+    match.status,
+    reopenedStatus,
+    null,
+    null,
+    tx
+  )
+
+  if (winnerId) {
+    const loserId =
+      winnerId === match.registration1Id
+        ? match.registration2Id
+        : match.registration1Id
+
+    if (isGroupStageMatch(event.format, match)) {
+      if (match.registration1Id && match.registration2Id) {
+        const matchPoints = calculateMatchPoints(
+          winnerId,
+          match.registration1Id,
+          match.registration2Id,
+          event.pointsPerWin,
+          event.pointsPerLoss
+        )
+
+        await updateRegistrationStandings(
+          match.registration1Id,
+          match.registration2Id,
+          matchPoints,
+          calculateSetPoints(playedSets),
+          -1,
+          tx
+        )
+      }
+    } else if (
+      isSingleEliminationFormat(event.format) ||
+      isKnockoutStageMatch(event.format, match) ||
+      isDoubleEliminationFormat(event.format)
+    ) {
+      if (match.winnerTo && match.winnerToSlot) {
+        revertedMatchIds.push(
+          ...(await pullRegistrationFromDownstream(
+            match.winnerTo,
+            match.winnerToSlot,
+            winnerId,
+            event,
+            tx
+          ))
+        )
+      }
+
+      // The loser goes back out of the losers bracket or third-place match
+      if (loserId && match.loserTo && match.loserToSlot) {
+        revertedMatchIds.push(
+          ...(await pullRegistrationFromDownstream(
+            match.loserTo,
+            match.loserToSlot,
+            loserId,
+            event,
+            tx
+          ))
+        )
+      }
+
+      // A grand final won by the winners-bracket champion cancelled the
+      // bracket reset; it is needed again until the final is decided
+      if (isDoubleEliminationFormat(event.format) && match.winnerTo) {
+        const bracketMatches = await tx
+          .select()
+          .from(matches)
+          .where(eq(matches.eventId, match.eventId))
+
+        const reset =
+          findGrandFinal(bracketMatches)?.id === match.id
+            ? findBracketReset(bracketMatches, match)
+            : undefined
+
+        if (reset?.status === 'cancelled') {
+          await setMatchStatus(reset, 'scheduled', null, null, tx)
+        }
+      }
+    }
+  }
+
+  if (match.groupId) {
+    await updateGroupCompletionStatus(match.groupId, tx)
+
+    // A group that is open again has no qualifiers in the knockout stage
+    if (event.format === 'groups-knockout') {
+      await syncGroupQualification(match.groupId, event, tx)
+    }
+  }
+
+  await updateEventCompletedStatus(match.eventId, tx)
+
+  return revertedMatchIds
+}
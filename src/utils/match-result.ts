@@ -0,0 +1,102 @@
+import { eq } from 'drizzle-orm'
+import { DbTransaction } from '../config/db.config'
+import { sets, Match, Event } from '../db/schema'
+import { getSetsForMatch, countsTowardsResult } from '../services/set.service'
+import { getMatchResultSets, getRubbersForMatch } from '../services/rubber.service'
+import { completeMatch } from './match-completion'
+import { getScoringRules, getSetRules } from './scoring-rules'
+import { nextVersion } from './versioning'
+
+export type DecisionStatus = 'walkover' | 'retired'
+
+/**
+ * Finishes a match that was decided by a walkover or retirement rather than
+ * by scoring. Sets are filled according to the event's scoring rules (not in
+ * team ties), then
+ * the match goes through the regular completion (standings, bracket
+ * advancement, group and event completion).
+ * Callers hold the match lock and check the status transition.
+ *
+ * @returns IDs of the bracket matches the winner or loser was placed into
+ */
+export const decideMatch = async (
+  match: Match,
+  event: Event,
+  winnerId: string,
+  status: DecisionStatus,
+  changedBy: string,
+  reason: string | null,
+  tx: DbTransaction
+): Promise<string[]> => {
+  const rules = getScoringRules(event)
+  const winnerSide = winnerId === match.registration1Id ? 1 : 2
+  const matchSets = await getSetsForMatch(match.id, tx)
+
+  // The set being played when a side retired is closed with its score as it
+  // stood; it counts for neither side (see countsTowardsResult), so a set the
+  // retiring side led cannot hand it the set majority
+  if (status === 'retired') {
+    for (const openSet of matchSets.filter((s) => !s.played)) {
+      await tx
+        .update(sets)
+        .set({
+          played: true,
+          resultType: 'retired',
+          version: nextVersion(sets.version),
+          updatedAt: new Date(),
+        })
+        .where(eq(sets.id, openSet.id))
+    }
+  }
+
+  // Team ties are decided on rubbers, so no sets are awarded in them
+  const isTeamTie = (await getRubbersForMatch(match.id, tx)).length > 0
+  const awardSets =
+    !isTeamTie &&
+    (status === 'walkover'
+      ? rules.walkover === 'award-sets'
+      : rules.retirement === 'award-remaining')
+
+  if (awardSets) {
+    const majority = Math.ceil(event.bestOf / 2)
+    let winnerSetCount = matchSets
+      .filter(countsTowardsResult)
+      .filter((s) =>
+        winnerSide === 1
+          ? s.registration1Score > s.registration2Score
+          : s.registration2Score > s.registration1Score
+      ).length
+    let setNumber =
+      matchSets.reduce((max, s) => Math.max(max, s.setNumber), 0) + 1
+
+    // Numbering goes on after the interrupted set, which takes up a number
+    // without counting; no set is numbered past bestOf, so the winner can
+    // end short of the majority and still wins on the decision
+    while (winnerSetCount < majority && setNumber <= event.bestOf) {
+      const awardedScore = getSetRules(event, setNumber).pointsToWin ?? 1
+
+      await tx.insert(sets).values({
+        matchId: match.id,
+        setNumber,
+        registration1Score: winnerSide === 1 ? awardedScore : 0,
+        registration2Score: winnerSide === 2 ? awardedScore : 0,
+        played: true,
+        resultType: 'awarded',
+      })
+
+      winnerSetCount++
+      setNumber++
+    }
+  }
+
+  const playedSets = await getMatchResultSets(match, tx)
+
+  return completeMatch(
+    match,
+    event,
+    winnerId,
+    playedSets,
+    { status, changedBy, reason },
+    tx
+  )
+}
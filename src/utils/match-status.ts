@@ -0,0 +1,121 @@
+import { eq } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import { matches, matchStatusHistory, Match } from '../db/schema'
+import { nextVersion } from './versioning'
+
+export type MatchStatus = Match['status']
+
+export type ResultStatus = 'completed' | 'walkover' | 'retired'
+
+// How a match was decided, and by whom when it was not decided by scoring
+export interface MatchResult {
+  status: ResultStatus
+  changedBy?: string | null
+  reason?: string | null
+}
+
+// States that carry a result (played = true)
+export const RESULT_STATUSES: readonly MatchStatus[] = [
+  'completed',
+  'walkover',
+  'retired',
+]
+
+/**
+ * Legal lifecycle transitions
+ * Leaving a result state reopens the match and reverses its result
+ */
+export const MATCH_STATUS_TRANSITIONS: Record<MatchStatus, readonly MatchStatus[]> = {
+  scheduled: ['called', 'warm-up', 'in-progress', 'walkover', 'cancelled'],
+  called: ['scheduled', 'warm-up', 'in-progress', 'walkover', 'cancelled'],
+  'warm-up': ['called', 'in-progress', 'walkover', 'cancelled'],
+  'in-progress': ['paused', 'completed', 'retired'],
+  paused: ['in-progress', 'retired', 'cancelled'],
+  completed: ['in-progress'],
+  walkover: ['scheduled'],
+  retired: ['in-progress'],
+  cancelled: ['scheduled'],
+}
+
+// States of a match that occupies its court, from being called until it is decided
+export const ON_COURT_STATUSES: readonly MatchStatus[] = [
+  'called',
+  'warm-up',
+  'in-progress',
+  'paused',
+]
+
+export const isResultStatus = (status: MatchStatus): boolean => {
+  return RESULT_STATUSES.includes(status)
+}
+
+export const isValidMatchStatus = (status: unknown): status is MatchStatus => {
+  return typeof status === 'string' && status in MATCH_STATUS_TRANSITIONS
+}
+
+export const canTransitionMatchStatus = (
+  from: MatchStatus,
+  to: MatchStatus
+): boolean => {
+  return MATCH_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Records a transition in the status history
+ * Callers set matches.status themselves, usually in the same update as the
+ * result fields
+ */
+export const recordMatchStatusChange = async (
+  matchId: string,
+  fromStatus: MatchStatus,
+  toStatus: MatchStatus,
+  changedBy: string | null,
+  reason: string | null,
+  tx: DbExecutor = db
+): Promise<void> => {
+  if (fromStatus === toStatus) return
+
+  await tx.insert(matchStatusHistory).values({
+    matchId,
+    fromStatus,
+    toStatus,
+    changedBy,
+    reason,
+  })
+}
+
+/**
+ * Moves a match to a new status that carries no result change
+ * and records the transition
+ */
+export const setMatchStatus = async (
+  match: Pick<Match, 'id' | 'status'>,
+  toStatus: MatchStatus,
+  changedBy: string | null,
+  reason: string | null,
+  tx: DbExecutor = db
+): Promise<Match> => {
+  const changedAt = new Date()
+
+  const result = await tx
+    .update(matches)
+    .set({
+      status: toStatus,
+      statusChangedAt: changedAt,
+      version: nextVersion(matches.version),
+      updatedAt: changedAt,
+    })
+    .where(eq(matches.id, match.id))
+    .returning()
+
+  await recordMatchStatusChange(
+    match.id,
+    match.status,
+    toStatus,
+    changedBy,
+    reason,
+    tx
+  )
+
+  return result[0]
+}
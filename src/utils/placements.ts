@@ -0,0 +1,142 @@
+import type { Match } from '../db/schema'
+import type { Placement } from '../config/placements'
+import { getBracketLayout } from './bracket'
+import { isDoubleEliminationFormat } from './match-completion'
+
+export type PlacementMatch = Pick<
+  Match,
+  | 'id'
+  | 'round'
+  | 'bracketType'
+  | 'winnerTo'
+  | 'loserTo'
+  | 'registration1Id'
+  | 'registration2Id'
+  | 'winnerId'
+  | 'played'
+>
+
+// Knockout placements by the number of rounds between the lost match and the final
+const KNOCKOUT_PLACEMENTS: Placement[] = [
+  'runner-up',
+  'semi-finalist',
+  'quarter-finalist',
+  'round-of-16',
+  'round-of-32',
+]
+
+const getLoserId = (match: PlacementMatch): string | null => {
+  if (!match.played || !match.winnerId) return null
+
+  // A BYE has no loser
+  const loserId =
+    match.winnerId === match.registration1Id
+      ? match.registration2Id
+      : match.registration1Id
+
+  return loserId ?? null
+}
+
+/**
+ * Placement of a double-elimination finishing position
+ */
+const getFinishingPlacement = (position: number): Placement => {
+  if (position === 3) return 'third-place'
+  if (position === 4) return 'fourth-place'
+  if (position <= 8) return 'quarter-finalist'
+  if (position <= 16) return 'round-of-16'
+  if (position <= 32) return 'round-of-32'
+  return 'participant'
+}
+
+/**
+ * Placements of the registrations knocked out of a played bracket (matches
+ * without a group). In a single-elimination bracket each loser is placed by
+ * the round it lost in, and the third-place match decides third and fourth.
+ * In a double-elimination bracket the final pair is decided by the grand
+ * final (or its reset when it was played) and everyone else by when they
+ * were knocked out: those going out in the same round share the best
+ * finishing position left. Registrations the bracket has not placed are
+ * left out
+ */
+export const getBracketPlacements = (
+  bracketMatches: PlacementMatch[],
+  format: string
+): Map<string, Placement> => {
+  const placements = new Map<string, Placement>()
+  const layout = getBracketLayout(bracketMatches, format)
+
+  const final = bracketMatches.find((m) => m.id === layout.finalMatchId)
+  const reset = bracketMatches.find((m) => m.id === layout.resetMatchId)
+  const decider = reset?.played ? reset : final
+  if (!decider?.played || !decider.winnerId) return placements
+
+  if (isDoubleEliminationFormat(format)) {
+    // Knocked out of the bracket: lost a match with nowhere to drop to
+    const knockedOut = bracketMatches
+      .filter(
+        (m) => !m.loserTo && m.id !== final?.id && m.id !== reset?.id
+      )
+      .flatMap((m) => {
+        const loserId = getLoserId(m)
+        return loserId ? [{ loserId, round: m.round }] : []
+      })
+
+    const rounds = [...new Set(knockedOut.map((k) => k.round))].sort(
+      (a, b) => b - a
+    )
+
+    let position = 3
+    for (const round of rounds) {
+      const roundLosers = knockedOut.filter((k) => k.round === round)
+
+      for (const { loserId } of roundLosers) {
+        placements.set(loserId, getFinishingPlacement(position))
+      }
+      position += roundLosers.length
+    }
+  } else {
+    for (const match of bracketMatches) {
+      const loserId = getLoserId(match)
+      if (!loserId || match.id === layout.thirdPlaceMatchId) continue
+
+      const roundsToFinal = decider.round - match.round
+      placements.set(
+        loserId,
+        KNOCKOUT_PLACEMENTS[roundsToFinal] ?? 'participant'
+      )
+    }
+
+    const thirdPlace = bracketMatches.find(
+      (m) => m.id === layout.thirdPlaceMatchId
+    )
+    const thirdPlaceLoserId = thirdPlace ? getLoserId(thirdPlace) : null
+
+    if (thirdPlace?.winnerId && thirdPlaceLoserId) {
+      placements.set(thirdPlace.winnerId, 'third-place')
+      placements.set(thirdPlaceLoserId, 'fourth-place')
+    }
+  }
+
+  const runnerUpId = getLoserId(decider)
+  if (runnerUpId) {
+    placements.set(runnerUpId, 'runner-up')
+  }
+  placements.set(decider.winnerId, 'champion')
+
+  return placements
+}
+
+/**
+ * Placement of a position in the table of a single-group event
+ */
+export const getTablePlacement = (position: number): Placement => {
+  const tablePlacements: Placement[] = [
+    'champion',
+    'runner-up',
+    'third-place',
+    'fourth-place',
+  ]
+
+  return tablePlacements[position - 1] ?? 'participant'
+}
@@ -0,0 +1,164 @@
+import type { Event } from '../db/schema'
+import {
+  EVENT_POSITIONS,
+  POSITIONS,
+  Position,
+  PositionScores,
+} from '../config/position-scoring'
+
+export interface PositionAssignment {
+  playerId: string
+  positions: Position[]
+}
+
+export interface PositionValidationResult {
+  valid: boolean
+  error?: string
+}
+
+export const isValidPosition = (position: unknown): position is Position => {
+  return POSITIONS.includes(position as Position)
+}
+
+/**
+ * Positions a registration plays in the event, or null when the event type
+ * is not scored per position
+ */
+export const getEventPositions = (
+  event: Pick<Event, 'eventType'>
+): readonly Position[] | null => {
+  return EVENT_POSITIONS[event.eventType] ?? null
+}
+
+/**
+ * Reads the stored position_scores jsonb, dropping unknown keys and values
+ * Returns an empty object when no positions are assigned
+ */
+export const parsePositionScores = (raw: unknown): PositionScores => {
+  const scores: PositionScores = {}
+
+  if (!raw || typeof raw !== 'object') return scores
+
+  for (const position of POSITIONS) {
+    const value = (raw as Record<string, unknown>)[position]
+    if (value === null) {
+      scores[position] = null
+    } else if (typeof value === 'number') {
+      scores[position] = value
+    }
+  }
+
+  return scores
+}
+
+export const isValidPositionScore = (score: unknown): score is number | null => {
+  return score === null || (Number.isInteger(score) && (score as number) >= 0)
+}
+
+/**
+ * Sum of the entered scores and how many assigned positions have one
+ */
+export const summarizePositionScores = (
+  scores: PositionScores
+): { total: number; scored: number; assigned: number } => {
+  let total = 0
+  let scored = 0
+  let assigned = 0
+
+  for (const position of POSITIONS) {
+    if (!(position in scores)) continue
+    assigned++
+
+    const value = scores[position]
+    if (typeof value === 'number') {
+      total += value
+      scored++
+    }
+  }
+
+  return { total, scored, assigned }
+}
+
+/**
+ * Validates a full position assignment for a registration:
+ * - the event type is scored per position
+ * - the registration has between minPlayers and maxPlayers players
+ * - every assigned player belongs to the registration and gets at least one position
+ * - every position of the event type is played by exactly one player
+ */
+export const validatePositionAssignments = (
+  event: Pick<Event, 'eventType' | 'minPlayers' | 'maxPlayers'>,
+  registrationPlayerIds: string[],
+  assignments: PositionAssignment[]
+): PositionValidationResult => {
+  const eventPositions = getEventPositions(event)
+
+  if (!eventPositions) {
+    return {
+      valid: false,
+      error: `Position scoring is not used for ${event.eventType} events`,
+    }
+  }
+
+  const playerCount = registrationPlayerIds.length
+  if (playerCount < event.minPlayers || playerCount > event.maxPlayers) {
+    return {
+      valid: false,
+      error: `Registration has ${playerCount} players; this event requires between ${event.minPlayers} and ${event.maxPlayers}`,
+    }
+  }
+
+  const assignedPositions = new Set<Position>()
+  const assignedPlayers = new Set<string>()
+
+  for (const assignment of assignments) {
+    if (!registrationPlayerIds.includes(assignment.playerId)) {
+      return {
+        valid: false,
+        error: `Player ${assignment.playerId} is not part of this registration`,
+      }
+    }
+
+    if (assignedPlayers.has(assignment.playerId)) {
+      return {
+        valid: false,
+        error: `Player ${assignment.playerId} is listed more than once`,
+      }
+    }
+    assignedPlayers.add(assignment.playerId)
+
+    if (!Array.isArray(assignment.positions) || assignment.positions.length === 0) {
+      return {
+        valid: false,
+        error: `Player ${assignment.playerId} must be assigned at least one position`,
+      }
+    }
+
+    for (const position of assignment.positions) {
+      if (!isValidPosition(position) || !eventPositions.includes(position)) {
+        return {
+          valid: false,
+          error: `Position ${position} is not played in ${event.eventType} events (positions: ${eventPositions.join(', ')})`,
+        }
+      }
+
+      if (assignedPositions.has(position)) {
+        return {
+          valid: false,
+          error: `Position ${position} is assigned more than once`,
+        }
+      }
+      assignedPositions.add(position)
+    }
+  }
+
+  const missing = eventPositions.filter((p) => !assignedPositions.has(p))
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      error: `Positions ${missing.join(', ')} must be assigned`,
+    }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,285 @@
+import { eq, and, asc, isNull } from 'drizzle-orm'
+import { db, DbExecutor } from '../config/db.config'
+import {
+  DEFAULT_QUALIFIERS_PER_GROUP,
+  ERROR_MESSAGES,
+} from '../config/constants'
+import {
+  groups,
+  matches,
+  registrations,
+  Event,
+  Group,
+  Match,
+} from '../db/schema'
+import { getGroupTable } from '../services/standings.service'
+import { nextVersion } from './versioning'
+import {
+  checkAndAutoAdvanceBye,
+  getStartedDownstreamMatches,
+  hasMatchStarted,
+  isAutoCompletedBye,
+  reverseMatchCompletion,
+} from './match-completion'
+
+export interface KnockoutSlot {
+  matchId: string
+  slot: 1 | 2
+  groupName: string
+  // 1 = group winner, 2 = runner-up, ...
+  position: number
+}
+
+export const getQualifiersPerGroup = (
+  event: Pick<Event, 'qualifiersPerGroup'>
+): number => {
+  return event.qualifiersPerGroup ?? DEFAULT_QUALIFIERS_PER_GROUP
+}
+
+/**
+ * Parses a slot source such as 'A1' into its group name and placing
+ */
+export const parseSlotSource = (
+  source: string | null
+): { groupName: string; position: number } | null => {
+  const parsed = source?.match(/^([A-Za-z]+)(\d+)$/)
+  if (!parsed) return null
+
+  const position = Number(parsed[2])
+  return position > 0 ? { groupName: parsed[1], position } : null
+}
+
+/**
+ * Default cross-over pairings: groups are paired in name order (A with B,
+ * C with D, ...) and the k-th of one group meets the (n+1-k)-th of the
+ * other. Pairings are listed placing by placing (A1-B2, C1-D2, B1-A2, D1-C2)
+ * so winners of paired groups are drawn into opposite halves.
+ * Returns null for an odd number of groups, which needs explicit slot sources
+ */
+export const buildCrossoverSources = (
+  groupNames: string[],
+  qualifiersPerGroup: number
+): [string, string][] | null => {
+  const names = [...groupNames].sort()
+  if (names.length === 0 || names.length % 2 !== 0) return null
+
+  const pairings: [string, string][] = []
+
+  for (let position = 1; position <= qualifiersPerGroup; position++) {
+    const opponentPosition = qualifiersPerGroup + 1 - position
+
+    for (let i = 0; i < names.length; i += 2) {
+      const [first, second] = [names[i], names[i + 1]]
+
+      pairings.push(
+        position % 2 === 1
+          ? [`${first}${position}`, `${second}${opponentPosition}`]
+          : [`${second}${opponentPosition}`, `${first}${position}`]
+      )
+    }
+  }
+
+  return pairings
+}
+
+/**
+ * Knockout slots of a groups-knockout event that are filled from group
+ * placings: the sources set on the knockout matches, or the default
+ * cross-over over the first knockout round when none are set. Returns no
+ * slots when the default cross-over does not fit the bracket
+ */
+export const getKnockoutSlots = async (
+  event: Pick<Event, 'id' | 'qualifiersPerGroup'>,
+  tx: DbExecutor = db
+): Promise<KnockoutSlot[]> => {
+  const knockoutMatches = await tx
+    .select()
+    .from(matches)
+    .where(and(eq(matches.eventId, event.id), isNull(matches.groupId)))
+    .orderBy(asc(matches.round), asc(matches.matchNumber))
+
+  const slots: KnockoutSlot[] = []
+
+  for (const match of knockoutMatches) {
+    for (const slot of [1, 2] as const) {
+      const source = parseSlotSource(
+        slot === 1 ? match.registration1Source : match.registration2Source
+      )
+      if (source) {
+        slots.push({ matchId: match.id, slot, ...source })
+      }
+    }
+  }
+
+  if (slots.length > 0 || knockoutMatches.length === 0) {
+    return slots
+  }
+
+  const eventGroups = await tx
+    .select({ name: groups.name })
+    .from(groups)
+    .where(eq(groups.eventId, event.id))
+
+  const pairings = buildCrossoverSources(
+    eventGroups.map((g) => g.name),
+    getQualifiersPerGroup(event)
+  )
+
+  const firstRound = knockoutMatches[0].round
+  const entryMatches = knockoutMatches
+    .filter((m) => m.round === firstRound)
+    .sort(
+      (a, b) =>
+        (a.bracketPosition ?? a.matchNumber) - (b.bracketPosition ?? b.matchNumber)
+    )
+
+  if (!pairings || pairings.length !== entryMatches.length) {
+    return []
+  }
+
+  entryMatches.forEach((match, index) => {
+    pairings[index].forEach((source, sourceIndex) => {
+      const parsed = parseSlotSource(source)
+      if (parsed) {
+        slots.push({
+          matchId: match.id,
+          slot: sourceIndex === 0 ? 1 : 2,
+          ...parsed,
+        })
+      }
+    })
+  })
+
+  return slots
+}
+
+/**
+ * Whether a knockout match of a groups-knockout event still waits for a
+ * qualifier: one of its slots is filled from a group that is not completed
+ */
+export const isAwaitingQualifier = async (
+  matchId: string,
+  event: Pick<Event, 'id' | 'format' | 'qualifiersPerGroup'>,
+  tx: DbExecutor = db
+): Promise<boolean> => {
+  if (event.format !== 'groups-knockout') return false
+
+  const matchSlots = (await getKnockoutSlots(event, tx)).filter(
+    (s) => s.matchId === matchId
+  )
+  if (matchSlots.length === 0) return false
+
+  const eventGroups = await tx
+    .select({ name: groups.name, completed: groups.completed })
+    .from(groups)
+    .where(eq(groups.eventId, event.id))
+
+  return matchSlots.some((slot) =>
+    eventGroups.some((g) => g.name === slot.groupName && !g.completed)
+  )
+}
+
+/**
+ * Re-derives the qualifiers of a group in a groups-knockout event from its
+ * standings: once the group is completed its top qualifiersPerGroup are
+ * marked qualified and placed into their knockout slots; while it is not,
+ * nobody in it is qualified and its slots are emptied. A slot whose match
+ * was completed as a BYE is re-routed: the BYE is reversed, unless a match
+ * its player advanced into has started. Refuses to change a slot whose
+ * knockout match has already started. Matches left as BYEs are then
+ * completed again.
+ *
+ * @returns IDs of the knockout matches whose slots changed, reverted BYEs
+ * and the matches the BYE cascade changed included
+ */
+export const syncGroupQualification = async (
+  groupId: string,
+  event: Event,
+  tx: DbExecutor = db
+): Promise<string[]> => {
+  const groupResult = await tx
+    .select()
+    .from(groups)
+    .where(eq(groups.id, groupId))
+    .limit(1)
+
+  if (groupResult.length === 0) return []
+  const group: Group = groupResult[0]
+
+  const groupRegistrations = await tx
+    .select()
+    .from(registrations)
+    .where(eq(registrations.groupId, groupId))
+
+  const qualifiers = group.completed
+    ? (await getGroupTable(groupId, tx)).slice(0, getQualifiersPerGroup(event))
+    : []
+  const qualifierIds = qualifiers.map((r) => r.id)
+
+  for (const registration of groupRegistrations) {
+    const qualified = qualifierIds.includes(registration.id)
+
+    if (registration.qualified !== qualified) {
+      await tx
+        .update(registrations)
+        .set({ qualified, updatedAt: new Date() })
+        .where(eq(registrations.id, registration.id))
+    }
+  }
+
+  const groupSlots = (await getKnockoutSlots(event, tx)).filter(
+    (s) => s.groupName === group.name
+  )
+  if (groupSlots.length === 0) return []
+
+  const changedMatchIds: string[] = []
+
+  for (const slot of groupSlots) {
+    // Read per slot, as reversing a BYE changes the match
+    const slotMatch = await tx
+      .select()
+      .from(matches)
+      .where(eq(matches.id, slot.matchId))
+      .limit(1)
+    if (slotMatch.length === 0) continue
+    const match: Match = slotMatch[0]
+
+    const registrationId = qualifierIds[slot.position - 1] ?? null
+    const current =
+      slot.slot === 1 ? match.registration1Id : match.registration2Id
+
+    if (current === registrationId) continue
+
+    if (await isAutoCompletedBye(match, tx)) {
+      if ((await getStartedDownstreamMatches(match, tx)).length > 0) {
+        throw new Error(ERROR_MESSAGES.KNOCKOUT_MATCH_STARTED)
+      }
+
+      changedMatchIds.push(
+        ...(await reverseMatchCompletion(match, event, [], tx))
+      )
+    } else if (await hasMatchStarted(match, tx)) {
+      throw new Error(ERROR_MESSAGES.KNOCKOUT_MATCH_STARTED)
+    }
+
+    await tx
+      .update(matches)
+      .set({
+        [slot.slot === 1 ? 'registration1Id' : 'registration2Id']: registrationId,
+        version: nextVersion(matches.version),
+        updatedAt: new Date(),
+      })
+      .where(eq(matches.id, match.id))
+
+    changedMatchIds.push(match.id)
+  }
+
+  // A qualifier facing an empty slot no other group fills goes through
+  for (const knockoutMatchId of [...new Set(changedMatchIds)]) {
+    changedMatchIds.push(
+      ...(await checkAndAutoAdvanceBye(knockoutMatchId, event.id, tx))
+    )
+  }
+
+  return [...new Set(changedMatchIds)]
+}
@@ -0,0 +1,81 @@
+import { DEFAULT_RANKING_BEST_RESULTS } from '../config/constants'
+
+// A player's result in one completed championship event
+export interface RankingResult {
+  playerId: string
+  eventId: string
+  points: number
+}
+
+export interface RankedPlayer<T extends RankingResult> {
+  playerId: string
+  // 1 = ranking leader; players level on points and total share a rank
+  rank: number
+  // Sum of the counted results
+  points: number
+  // Sum of every result, counted or not
+  totalPoints: number
+  // Level with another player on points and total
+  tied: boolean
+  // Best first; `counted` marks the best N that make up the points
+  results: (T & { counted: boolean })[]
+}
+
+/**
+ * Ranks players by the sum of their best `bestResults` results. Players level
+ * on it are separated by the sum of all their results and otherwise share a
+ * rank
+ */
+export const computeRanking = <T extends RankingResult>(
+  results: T[],
+  bestResults: number
+): RankedPlayer<T>[] => {
+  const playerIds = [...new Set(results.map((r) => r.playerId))]
+
+  const players = playerIds.map((playerId) => {
+    const playerResults = results
+      .filter((r) => r.playerId === playerId)
+      .sort((a, b) => b.points - a.points)
+      .map((r, index) => ({ ...r, counted: index < bestResults }))
+
+    return {
+      playerId,
+      rank: 0,
+      points: playerResults
+        .filter((r) => r.counted)
+        .reduce((sum, r) => sum + r.points, 0),
+      totalPoints: playerResults.reduce((sum, r) => sum + r.points, 0),
+      tied: false,
+      results: playerResults,
+    }
+  })
+
+  players.sort((a, b) => b.points - a.points || b.totalPoints - a.totalPoints)
+
+  const isLevel = (a: RankedPlayer<T>, b: RankedPlayer<T>) =>
+    a.points === b.points && a.totalPoints === b.totalPoints
+
+  return players.map((player, index) => {
+    const firstLevel = players.findIndex((p) => isLevel(p, player))
+
+    return {
+      ...player,
+      rank: firstLevel + 1,
+      tied: players.some((p, i) => i !== index && isLevel(p, player)),
+    }
+  })
+}
+
+/**
+ * Number of results counted per player for a ranking query: the requested
+ * number, or the default when none is given. Null when the request is not a
+ * positive whole number
+ */
+export const resolveBestResults = (requested: unknown): number | null => {
+  if (requested === undefined || requested === null || requested === '') {
+    return DEFAULT_RANKING_BEST_RESULTS
+  }
+
+  const value = Number(requested)
+  return Number.isInteger(value) && value > 0 ? value : null
+}
@@ -0,0 +1,192 @@
+import type { Event } from '../db/schema'
+import {
+  DEFAULT_SET_MINUTES,
+  DEFAULT_MIN_REST_MINUTES,
+  MATCH_CHANGEOVER_MINUTES,
+} from '../config/constants'
+import { getScoringRules } from './scoring-rules'
+import { MatchStatus, ON_COURT_STATUSES, RESULT_STATUSES } from './match-status'
+
+const MINUTE_MS = 60 * 1000
+
+// A scheduled match as the scheduler sees it
+export interface ScheduleSlot {
+  matchId: string
+  eventId: string
+  courtId: string | null
+  // Players of both sides, doubles partners included
+  playerIds: string[]
+  scheduledAt: Date
+  durationMinutes: number
+  // Rest the players need before this match
+  minRestMinutes: number
+  status: MatchStatus
+  statusChangedAt: Date | null
+}
+
+export interface ScheduleConflict {
+  matchId: string
+  conflictingMatchId: string
+  playerIds: string[]
+  type: 'overlap' | 'rest'
+  // Minutes from the end of the earlier match to the start of the later one
+  gapMinutes: number
+  minRestMinutes: number
+}
+
+export interface ProjectedSlot {
+  matchId: string
+  // Null once the match is decided
+  expectedStartAt: Date | null
+  expectedEndAt: Date
+  delayMinutes: number
+}
+
+export const getMinRestMinutes = (event: Pick<Event, 'minRestMinutes'>): number => {
+  return event.minRestMinutes ?? DEFAULT_MIN_REST_MINUTES
+}
+
+/**
+ * Estimated length of a match of the event: every set of its best-of played
+ * (every rubber of a team tie), plus the changeover before it
+ */
+export const estimateMatchMinutes = (
+  event: Pick<Event, 'eventType' | 'scoringRules' | 'bestOf' | 'setMinutes'>
+): number => {
+  const rubbers = getScoringRules(event).rubbersPerTie ?? 1
+  const setMinutes = event.setMinutes ?? DEFAULT_SET_MINUTES
+
+  return event.bestOf * rubbers * setMinutes + MATCH_CHANGEOVER_MINUTES
+}
+
+export const getSlotEnd = (slot: ScheduleSlot): Date => {
+  return new Date(slot.scheduledAt.getTime() + slot.durationMinutes * MINUTE_MS)
+}
+
+// Walkovers and cancelled matches are not played, so they hold no one up
+const isPlayedSlot = (slot: ScheduleSlot): boolean => {
+  return slot.status !== 'walkover' && slot.status !== 'cancelled'
+}
+
+const bySchedule = (a: ScheduleSlot, b: ScheduleSlot): number => {
+  return (
+    a.scheduledAt.getTime() - b.scheduledAt.getTime() ||
+    a.matchId.localeCompare(b.matchId)
+  )
+}
+
+const sharedPlayers = (a: ScheduleSlot, b: ScheduleSlot): string[] => {
+  return a.playerIds.filter((playerId) => b.playerIds.includes(playerId))
+}
+
+/**
+ * Pairs of matches with a player in common that overlap, or leave the player
+ * less rest than the later match requires. With `matchId`, only that match's
+ * conflicts, with it as `matchId`
+ */
+export const findScheduleConflicts = (
+  slots: ScheduleSlot[],
+  matchId?: string
+): ScheduleConflict[] => {
+  const ordered = slots.filter(isPlayedSlot).sort(bySchedule)
+  const conflicts: ScheduleConflict[] = []
+
+  for (const [index, earlier] of ordered.entries()) {
+    for (const later of ordered.slice(index + 1)) {
+      if (matchId && earlier.matchId !== matchId && later.matchId !== matchId) {
+        continue
+      }
+
+      const playerIds = sharedPlayers(earlier, later)
+      if (playerIds.length === 0) continue
+
+      const gapMinutes = Math.round(
+        (later.scheduledAt.getTime() - getSlotEnd(earlier).getTime()) / MINUTE_MS
+      )
+
+      if (gapMinutes >= later.minRestMinutes) continue
+
+      const [own, other] =
+        later.matchId === matchId ? [later, earlier] : [earlier, later]
+
+      conflicts.push({
+        matchId: own.matchId,
+        conflictingMatchId: other.matchId,
+        playerIds,
+        type: gapMinutes < 0 ? 'overlap' : 'rest',
+        gapMinutes,
+        minRestMinutes: later.minRestMinutes,
+      })
+    }
+  }
+
+  return conflicts
+}
+
+/**
+ * Projects when each match will actually start, given how the day has run so
+ * far. A match waits for the matches before it on its court and, plus their
+ * rest, for the earlier matches of its players. A match still on court at
+ * `now` has overrun when its estimate has passed, which pushes back every
+ * match waiting for it. Decided matches end when they were decided
+ */
+export const projectSchedule = (
+  slots: ScheduleSlot[],
+  now: Date
+): ProjectedSlot[] => {
+  const ordered = slots.filter(isPlayedSlot).sort(bySchedule)
+  const ends = new Map<string, Date>()
+  const projected: ProjectedSlot[] = []
+
+  for (const [index, slot] of ordered.entries()) {
+    if (RESULT_STATUSES.includes(slot.status)) {
+      const end = slot.statusChangedAt ?? getSlotEnd(slot)
+      ends.set(slot.matchId, end)
+      projected.push({
+        matchId: slot.matchId,
+        expectedStartAt: null,
+        expectedEndAt: end,
+        delayMinutes: 0,
+      })
+      continue
+    }
+
+    let start = slot.scheduledAt.getTime()
+
+    for (const earlier of ordered.slice(0, index)) {
+      const earlierEnd = (ends.get(earlier.matchId) as Date).getTime()
+
+      if (slot.courtId && earlier.courtId === slot.courtId) {
+        start = Math.max(start, earlierEnd)
+      }
+
+      if (sharedPlayers(earlier, slot).length > 0) {
+        start = Math.max(start, earlierEnd + slot.minRestMinutes * MINUTE_MS)
+      }
+    }
+
+    let end: number
+
+    if (ON_COURT_STATUSES.includes(slot.status)) {
+      // Already on court: it started no later than now and runs until at least now
+      start = Math.min(start, now.getTime())
+      end = Math.max(start + slot.durationMinutes * MINUTE_MS, now.getTime())
+    } else {
+      start = Math.max(start, now.getTime())
+      end = start + slot.durationMinutes * MINUTE_MS
+    }
+
+    ends.set(slot.matchId, new Date(end))
+    projected.push({
+      matchId: slot.matchId,
+      expectedStartAt: new Date(start),
+      expectedEndAt: new Date(end),
+      delayMinutes: Math.max(
+        0,
+        Math.round((start - slot.scheduledAt.getTime()) / MINUTE_MS)
+      ),
+    })
+  }
+
+  return projected
+}
@@ -0,0 +1,182 @@
+import type { Event } from '../db/schema'
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringRules,
+  ScoringRulesOverride,
+  SetScoringRules,
+  WalkoverPolicy,
+  RetirementPolicy,
+} from '../config/scoring-rules'
+
+const WALKOVER_POLICIES: readonly WalkoverPolicy[] = ['award-sets', 'no-sets']
+const RETIREMENT_POLICIES: readonly RetirementPolicy[] = [
+  'award-remaining',
+  'keep-played',
+]
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isPositiveInteger = (value: unknown): value is number => {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+/**
+ * The set rule fields of a stored override that are valid; the others are
+ * left out so their defaults apply
+ */
+const parseSetRulesOverride = (
+  raw: Record<string, unknown>
+): Partial<SetScoringRules> => {
+  const override: Partial<SetScoringRules> = {}
+
+  if (raw.pointsToWin === null || isPositiveInteger(raw.pointsToWin)) {
+    override.pointsToWin = raw.pointsToWin
+  }
+  if (isPositiveInteger(raw.winBy)) {
+    override.winBy = raw.winBy
+  }
+  if (raw.pointCap === null || isPositiveInteger(raw.pointCap)) {
+    override.pointCap = raw.pointCap
+  }
+
+  return override
+}
+
+/**
+ * Reads events.scoring_rules, which is unchecked jsonb: fields of the wrong
+ * type or out of range fall back to the defaults instead of reaching scoring
+ */
+const parseScoringRulesOverride = (raw: unknown): ScoringRulesOverride => {
+  if (!isRecord(raw)) return {}
+
+  const override: ScoringRulesOverride = parseSetRulesOverride(raw)
+
+  if (raw.decidingSet === null) {
+    override.decidingSet = null
+  } else if (isRecord(raw.decidingSet)) {
+    override.decidingSet = parseSetRulesOverride(raw.decidingSet)
+  }
+  if (WALKOVER_POLICIES.includes(raw.walkover as WalkoverPolicy)) {
+    override.walkover = raw.walkover as WalkoverPolicy
+  }
+  if (RETIREMENT_POLICIES.includes(raw.retirement as RetirementPolicy)) {
+    override.retirement = raw.retirement as RetirementPolicy
+  }
+  if (raw.rubbersPerTie === null || isPositiveInteger(raw.rubbersPerTie)) {
+    override.rubbersPerTie = raw.rubbersPerTie
+  }
+
+  return override
+}
+
+/**
+ * Resolves the scoring rules of an event: the defaults for its event type
+ * with the event's own valid overrides applied on top
+ */
+export const getScoringRules = (
+  event: Pick<Event, 'eventType' | 'scoringRules'>
+): ScoringRules => {
+  const defaults = DEFAULT_SCORING_RULES[event.eventType]
+  const override = parseScoringRulesOverride(event.scoringRules)
+
+  // null is a meaningful override (no target / no cap), so only undefined falls back
+  const setRules: SetScoringRules = {
+    pointsToWin:
+      override.pointsToWin !== undefined
+        ? override.pointsToWin
+        : defaults.pointsToWin,
+    winBy: override.winBy ?? defaults.winBy,
+    pointCap:
+      override.pointCap !== undefined ? override.pointCap : defaults.pointCap,
+  }
+
+  let decidingSet = defaults.decidingSet
+  if (override.decidingSet !== undefined) {
+    decidingSet = override.decidingSet
+      ? { ...setRules, ...override.decidingSet }
+      : null
+  }
+
+  return {
+    ...setRules,
+    decidingSet,
+    walkover: override.walkover ?? defaults.walkover,
+    retirement: override.retirement ?? defaults.retirement,
+    rubbersPerTie:
+      override.rubbersPerTie !== undefined
+        ? override.rubbersPerTie
+        : defaults.rubbersPerTie,
+  }
+}
+
+/**
+ * Rules for one set of a match; the deciding set may play to a different target
+ */
+export const getSetRules = (
+  event: Pick<Event, 'eventType' | 'scoringRules' | 'bestOf'>,
+  setNumber: number
+): SetScoringRules => {
+  const rules = getScoringRules(event)
+
+  if (setNumber === event.bestOf && rules.decidingSet) {
+    return rules.decidingSet
+  }
+
+  return {
+    pointsToWin: rules.pointsToWin,
+    winBy: rules.winBy,
+    pointCap: rules.pointCap,
+  }
+}
+
+/**
+ * Whether the rules say the set is over at this score
+ * Sets without a target are never over on their own
+ */
+export const isSetOver = (
+  rules: SetScoringRules,
+  registration1Score: number,
+  registration2Score: number
+): boolean => {
+  if (rules.pointsToWin === null) return false
+
+  const leader = Math.max(registration1Score, registration2Score)
+  const lead = Math.abs(registration1Score - registration2Score)
+
+  if (lead === 0) return false
+
+  if (rules.pointCap !== null && leader >= rules.pointCap) return true
+
+  return leader >= rules.pointsToWin && lead >= rules.winBy
+}
+
+/**
+ * Whether a score can occur under the rules, i.e. the set was not already over
+ * one point earlier
+ */
+export const isScoreReachable = (
+  rules: SetScoringRules,
+  registration1Score: number,
+  registration2Score: number
+): boolean => {
+  if (registration1Score === 0 && registration2Score === 0) return true
+
+  return (
+    (registration1Score > 0 &&
+      !isSetOver(rules, registration1Score - 1, registration2Score)) ||
+    (registration2Score > 0 &&
+      !isSetOver(rules, registration1Score, registration2Score - 1))
+  )
+}
+
+export const describeSetRules = (rules: SetScoringRules): string => {
+  if (rules.pointsToWin === null) return 'no point target'
+
+  const parts = [`first to ${rules.pointsToWin}`]
+  if (rules.winBy > 1) parts.push(`win by ${rules.winBy}`)
+  if (rules.pointCap !== null) parts.push(`capped at ${rules.pointCap}`)
+
+  return parts.join(', ')
+}
@@ -0,0 +1,181 @@
+import type { Event, Registration } from '../db/schema'
+import {
+  Tiebreaker,
+  TIEBREAKERS,
+  DEFAULT_TIEBREAKERS,
+} from '../config/tiebreakers'
+
+export type StandingsRow = Pick<
+  Registration,
+  'id' | 'points' | 'matchesWon' | 'matchesLost' | 'setsWon' | 'setsLost' | 'seed'
+>
+
+// A played group match with the scores of its played sets
+export interface StandingsMatch {
+  registration1Id: string | null
+  registration2Id: string | null
+  winnerId: string | null
+  sets: { registration1Score: number; registration2Score: number }[]
+}
+
+export type RankedStandingsRow<T extends StandingsRow> = T & {
+  // 1 = group leader
+  position: number
+  setDifference: number
+  pointsFor: number
+  pointsAgainst: number
+  pointDifference: number
+  // Criterion that separated this registration from the others level with
+  // it ('points' when nobody else had as many), null while still level
+  decidedBy: Tiebreaker | null
+  // Level with another registration after the whole chain
+  tied: boolean
+}
+
+const isTiebreaker = (value: unknown): value is Tiebreaker => {
+  return TIEBREAKERS.includes(value as Tiebreaker)
+}
+
+/**
+ * Tiebreak chain of an event: events.tiebreakers when it is a valid list of
+ * criteria, otherwise the default chain
+ */
+export const getTiebreakers = (
+  event: Pick<Event, 'tiebreakers'>
+): readonly Tiebreaker[] => {
+  const configured = event.tiebreakers
+
+  if (
+    Array.isArray(configured) &&
+    configured.length > 0 &&
+    configured.every(isTiebreaker)
+  ) {
+    return configured
+  }
+
+  return DEFAULT_TIEBREAKERS
+}
+
+/**
+ * Value of a criterion for one registration, higher is better. Head-to-head
+ * only counts matches against the other registrations being compared
+ */
+const getCriterionValue = (
+  criterion: Tiebreaker,
+  row: RankedStandingsRow<StandingsRow>,
+  compared: RankedStandingsRow<StandingsRow>[],
+  playedMatches: StandingsMatch[]
+): number => {
+  switch (criterion) {
+    case 'points':
+      return row.points
+    case 'head-to-head': {
+      const opponentIds = compared.map((r) => r.id).filter((id) => id !== row.id)
+
+      return playedMatches.filter(
+        (m) =>
+          m.winnerId === row.id &&
+          opponentIds.includes(
+            (m.registration1Id === row.id
+              ? m.registration2Id
+              : m.registration1Id) ?? ''
+          )
+      ).length
+    }
+    case 'set-difference':
+      return row.setDifference
+    case 'sets-won':
+      return row.setsWon
+    case 'point-difference':
+      return row.pointDifference
+    case 'seed':
+      return -(row.seed ?? Number.MAX_SAFE_INTEGER)
+  }
+}
+
+/**
+ * Orders registrations that are level so far by the first criterion of the
+ * chain that tells them apart. Head-to-head is applied again within any
+ * smaller group it leaves level, since results among fewer registrations
+ * can differ
+ */
+const breakTies = <T extends StandingsRow>(
+  rows: RankedStandingsRow<T>[],
+  chain: readonly Tiebreaker[],
+  playedMatches: StandingsMatch[]
+): RankedStandingsRow<T>[] => {
+  if (rows.length <= 1) return rows
+
+  if (chain.length === 0) {
+    return rows.map((row) => ({ ...row, decidedBy: null, tied: true }))
+  }
+
+  const [criterion, ...rest] = chain
+  const values = new Map(
+    rows.map((row) => [
+      row.id,
+      getCriterionValue(criterion, row, rows, playedMatches),
+    ])
+  )
+
+  const distinctValues = [...new Set(values.values())].sort((a, b) => b - a)
+
+  return distinctValues.flatMap((value) => {
+    const level = rows.filter((row) => values.get(row.id) === value)
+
+    if (level.length === 1) {
+      return [{ ...level[0], decidedBy: criterion, tied: false }]
+    }
+
+    const nextChain =
+      criterion === 'head-to-head' && level.length < rows.length ? chain : rest
+
+    return breakTies(level, nextChain, playedMatches)
+  })
+}
+
+/**
+ * Ranks a group table with a tiebreak chain and reports, for each place,
+ * the criterion that decided it. Set and point figures are taken from the
+ * played group matches
+ */
+export const computeStandings = <T extends StandingsRow>(
+  rows: T[],
+  playedMatches: StandingsMatch[],
+  chain: readonly Tiebreaker[] = DEFAULT_TIEBREAKERS
+): RankedStandingsRow<T>[] => {
+  const withFigures: RankedStandingsRow<T>[] = rows.map((row) => {
+    let pointsFor = 0
+    let pointsAgainst = 0
+
+    for (const match of playedMatches) {
+      const side =
+        match.registration1Id === row.id
+          ? 1
+          : match.registration2Id === row.id
+            ? 2
+            : null
+      if (!side) continue
+
+      for (const set of match.sets) {
+        pointsFor += side === 1 ? set.registration1Score : set.registration2Score
+        pointsAgainst += side === 1 ? set.registration2Score : set.registration1Score
+      }
+    }
+
+    return {
+      ...row,
+      position: 0,
+      setDifference: row.setsWon - row.setsLost,
+      pointsFor,
+      pointsAgainst,
+      pointDifference: pointsFor - pointsAgainst,
+      decidedBy: null,
+      tied: false,
+    }
+  })
+
+  const ranked = breakTies(withFigures, chain, playedMatches)
+
+  return ranked.map((row, index) => ({ ...row, position: index + 1 }))
+}
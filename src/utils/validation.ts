@@ -1,6 +1,13 @@
 import { eq, asc } from 'drizzle-orm'
-import { db } from '../config/db.config'
-import { matches, sets, events, Match } from '../db/schema'
+import { db, DbExecutor } from '../config/db.config'
+import { ERROR_MESSAGES } from '../config/constants'
+import { matches, sets, events, rubbers, Match } from '../db/schema'
+import {
+  getSetRules,
+  isSetOver,
+  isScoreReachable,
+  describeSetRules,
+} from './scoring-rules'
 
 export interface SetData {
   id: string
@@ -40,7 +47,8 @@ export const getByeMatchWinner = (match: Match): string | null => {
 export const validateSetScore = async (
   setId: string,
   registration1Score: number,
-  registration2Score: number
+  registration2Score: number,
+  tx: DbExecutor = db
 ): Promise<ValidationResult> => {
   // Check if scores are non-negative
   if (registration1Score < 0 || registration2Score < 0) {
@@ -51,7 +59,7 @@ export const validateSetScore = async (
   }
 
   // Get set data
-  const setResults = await db
+  const setResults = await tx
     .select()
     .from(sets)
     .where(eq(sets.id, setId))
@@ -75,7 +83,7 @@ export const validateSetScore = async (
   }
 
   // Get match to check if it's played or is a BYE match
-  const matchResults = await db
+  const matchResults = await tx
     .select()
     .from(matches)
     .where(eq(matches.id, setData.matchId))
@@ -105,6 +113,37 @@ export const validateSetScore = async (
     }
   }
 
+  // Scheduled, paused or cancelled matches are not being played
+  if (match.status !== 'in-progress') {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.MATCH_NOT_IN_PROGRESS,
+    }
+  }
+
+  // Get event for its scoring rules
+  const eventResults = await tx
+    .select()
+    .from(events)
+    .where(eq(events.id, match.eventId))
+    .limit(1)
+
+  if (eventResults.length === 0) {
+    return {
+      valid: false,
+      error: 'Event not found',
+    }
+  }
+
+  // Scores cannot go past the point where the set was already over
+  const setRules = getSetRules(eventResults[0], setData.setNumber)
+  if (!isScoreReachable(setRules, registration1Score, registration2Score)) {
+    return {
+      valid: false,
+      error: `Score exceeds the scoring rules for this set (${describeSetRules(setRules)})`,
+    }
+  }
+
   return { valid: true }
 }
 
@@ -148,12 +187,14 @@ export const validateSetPlayed = async (
 
   const setData = setResults[0]
 
-  // Get all sets for the match
-  const allSets = await db
-    .select()
-    .from(sets)
-    .where(eq(sets.matchId, setData.matchId))
-    .orderBy(asc(sets.setNumber))
+  // Get all sets for the match (for the rubber, in a team tie)
+  const allSets = (
+    await db
+      .select()
+      .from(sets)
+      .where(eq(sets.matchId, setData.matchId))
+      .orderBy(asc(sets.setNumber))
+  ).filter((s) => s.rubberId === setData.rubberId)
 
   // Check if any previous set is not marked as played
   for (let i = 0; i < setData.setNumber - 1; i++) {
@@ -167,6 +208,46 @@ export const validateSetPlayed = async (
     }
   }
 
+  // Get match and event for the scoring rules
+  const matchResults = await db
+    .select()
+    .from(matches)
+    .where(eq(matches.id, setData.matchId))
+    .limit(1)
+
+  if (matchResults.length === 0) {
+    return {
+      valid: false,
+      error: 'Match not found',
+    }
+  }
+
+  const eventResults = await db
+    .select()
+    .from(events)
+    .where(eq(events.id, matchResults[0].eventId))
+    .limit(1)
+
+  if (eventResults.length === 0) {
+    return {
+      valid: false,
+      error: 'Event not found',
+    }
+  }
+
+  // Sets with a point target can only be closed once the rules say they are over
+  const setRules = getSetRules(eventResults[0], setData.setNumber)
+  if (
+    setRules.pointsToWin !== null &&
+    (!isScoreReachable(setRules, registration1Score, registration2Score) ||
+      !isSetOver(setRules, registration1Score, registration2Score))
+  ) {
+    return {
+      valid: false,
+      error: `Cannot mark set as played: score does not finish the set (${describeSetRules(setRules)})`,
+    }
+  }
+
   return { valid: true }
 }
 
@@ -219,6 +300,37 @@ export const validateMatchCompletion = async (
   const event = eventResults[0]
   const bestOf = event.bestOf
 
+  // Team ties are decided on their rubbers
+  const tieRubbers = await db
+    .select()
+    .from(rubbers)
+    .where(eq(rubbers.matchId, matchId))
+
+  if (tieRubbers.length > 0) {
+    const majority = Math.ceil(tieRubbers.length / 2)
+    const registration1Rubbers = tieRubbers.filter(
+      (r) => r.played && r.winnerId === match.registration1Id
+    ).length
+    const registration2Rubbers = tieRubbers.filter(
+      (r) => r.played && r.winnerId === match.registration2Id
+    ).length
+
+    if (registration1Rubbers < majority && registration2Rubbers < majority) {
+      return {
+        valid: false,
+        error: 'No team has won a majority of the rubbers yet',
+      }
+    }
+
+    return {
+      valid: true,
+      winnerId:
+        registration1Rubbers >= majority
+          ? match.registration1Id
+          : match.registration2Id,
+    }
+  }
+
   // Get all sets for the match
   const allSets = await db
     .select()
@@ -0,0 +1,34 @@
+import { sql, SQL } from 'drizzle-orm'
+import type { AnyPgColumn } from 'drizzle-orm/pg-core'
+
+export type VersionedEntity = 'set' | 'match'
+
+/**
+ * SQL expression that increments a version column.
+ * Every update of a set or match bumps its version so that clients still
+ * holding the previous version get a conflict instead of overwriting.
+ */
+export const nextVersion = (column: AnyPgColumn): SQL => sql`${column} + 1`
+
+export const isValidVersion = (version: unknown): version is number => {
+  return Number.isInteger(version) && (version as number) > 0
+}
+
+/**
+ * Thrown when a command echoes a version that is no longer current
+ * Carries enough context for the controller to send the current state back
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly entity: VersionedEntity,
+    public readonly entityId: string,
+    public readonly matchId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number
+  ) {
+    super(
+      `${entity === 'set' ? 'Set' : 'Match'} was modified by someone else (version ${currentVersion}, expected ${expectedVersion})`
+    )
+    this.name = 'VersionConflictError'
+  }
+}